@@ -1,15 +1,29 @@
 const attr = {
 	callback: 'data-menu-callback',
+	checked: 'aria-checked',
+	controls: 'aria-controls',
+	disabled: 'aria-disabled',
 	expanded: 'aria-expanded',
+	group: 'data-menu-group',
+	haspopup: 'aria-haspopup',
 	hidden: 'aria-hidden',
 	menu: 'data-menu',
+	orientation: 'aria-orientation',
 	role: 'role',
 };
 
 const classes = {
 	active: 'mdf-menu--active',
 	disabled: 'mdf-list__item--disabled',
+	icon: 'mdf-icon',
 	item: 'mdf-list__item',
+	leading: 'mdf-list__leading',
+	list: 'mdf-list',
+	menu: 'mdf-menu',
+	separator: 'mdf-menu__separator',
+	shortcut: 'mdf-menu__shortcut',
+	text: 'mdf-list__text',
+	trailing: 'mdf-list__trailing',
 	transitions: 'mdf-disable-transitions',
 };
 
@@ -21,7 +35,8 @@ const events = {
 
 const selectors = {
 	anchor: '[data-menu]',
-	item: '[role="menuitem"]',
+	checkable: '[role="menuitemcheckbox"], [role="menuitemradio"]',
+	item: '[role="menuitem"], [role="menuitemcheckbox"], [role="menuitemradio"]',
 	list: '[role="menu"]',
 	menu: '.mdf-menu',
 	quickAnchor: '.mdf-quick-menu button',
@@ -0,0 +1,51 @@
+import { MDFMenuPoint } from './types';
+
+/**
+ * Submenus
+ *
+ * Helpers the menu uses to decide wether the pointer is on its way to an open submenu.
+ *
+ * @version 1.1.0
+ */
+
+/**
+ * getSide
+ *
+ * Returns on which side of the line from `a` to `b` the given point lies. Points on the line return `0`.
+ *
+ * @param {MDFMenuPoint} point The point to check
+ * @param {MDFMenuPoint} a Start of the line
+ * @param {MDFMenuPoint} b End of the line
+ * @returns {number}
+ */
+function getSide(point: MDFMenuPoint, a: MDFMenuPoint, b: MDFMenuPoint): number {
+	return Math.sign((b.x - a.x) * (point.y - a.y) - (b.y - a.y) * (point.x - a.x));
+}
+
+/**
+ * isInSafeTriangle
+ *
+ * Wether or not the pointer moves toward a submenu. The safe triangle spans from the previous pointer position
+ * to the corners of the submenu edge facing it, moving diagonally inside of it shouldn't switch submenus.
+ *
+ * @export
+ * @param {MDFMenuPoint} point The current pointer position
+ * @param {MDFMenuPoint} origin The previous pointer position
+ * @param {DOMRect} rect Client rect of the submenu
+ * @returns {boolean}
+ * @version 1.1.0
+ *
+ * @example isInSafeTriangle({ x: 110, y: 60 }, { x: 100, y: 50 }, submenu.getBoundingClientRect())
+ */
+export function isInSafeTriangle(point: MDFMenuPoint, origin: MDFMenuPoint, rect: DOMRect): boolean {
+	// The edge of the submenu facing the pointer, submenus open on either side.
+	const edge = rect.left >= origin.x ? rect.left : rect.right;
+
+	const top = { x: edge, y: rect.top };
+	const bottom = { x: edge, y: rect.bottom };
+
+	const sides = [getSide(point, origin, top), getSide(point, top, bottom), getSide(point, bottom, origin)];
+
+	// Inside the triangle, the point lies on the same side of all its edges.
+	return !(sides.includes(-1) && sides.includes(1));
+}
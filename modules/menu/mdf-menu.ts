@@ -1,7 +1,11 @@
 import '@miraidesigns/base';
-import { getScrollbarParent } from '@miraidesigns/utils';
+import { getScrollbarParent, isRTL } from '@miraidesigns/utils';
 import { attr, classes, events, selectors } from './constants';
-import { MDFMenuOptions, MDFMenuActivatedEvent } from './types';
+import { isInSafeTriangle } from './mdf-menu-submenu';
+import { MDFMenuOptions, MDFMenuActivatedEvent, MDFMenuItem, MDFMenuPoint } from './types';
+
+// Rendered submenus receive unique IDs, counted across all menus.
+let submenuCount = 0;
 
 /**
  * MDFMenu
@@ -14,16 +18,31 @@ import { MDFMenuOptions, MDFMenuActivatedEvent } from './types';
  */
 export class MDFMenu {
 	public readonly anchor: HTMLElement;
-	public readonly items: HTMLElement[];
+	public contextElement: HTMLElement;
+	public items: HTMLElement[];
 	public readonly menu: HTMLElement;
 	public readonly options: MDFMenuOptions;
+	public submenus: MDFMenu[];
 
 	private anchorRect: ClientRect;
+	private contextPoint: MDFMenuPoint;
 	private defaults: MDFMenuOptions;
+	private hoverItem: HTMLElement;
+	private hoverTimer: number;
 	private index: number;
+	private itemData: Map<HTMLElement, MDFMenuItem>;
 	private list: HTMLElement;
 	private menus: NodeListOf<HTMLElement>;
 	private menuRect: ClientRect;
+	private parentMenu: MDFMenu;
+	private pointer: MDFMenuPoint;
+	private pressPoint: MDFMenuPoint;
+	private pressTimer: number;
+	private renderedMenus: HTMLElement[];
+	private returnFocus: HTMLElement;
+	private submenu: MDFMenu;
+	private typeAheadTimer: number;
+	private typedCharacters: string[];
 	private useKeyboard: boolean;
 
 	/**
@@ -52,16 +71,31 @@ export class MDFMenu {
 			onOpen: null,
 			onClose: null,
 			hideOnClick: true,
+			closeOnToggle: true,
+			submenuOpenDelay: 150,
+			submenuCloseDelay: 300,
+			contextTarget: null,
+			contextSelector: null,
+			longPressDelay: 500,
+			items: null,
 		};
 
+		// Context menus open at the pointer and grow toward the end of the reading direction.
+		if (options && options.contextTarget) {
+			Object.assign(this.defaults, {
+				posX: isRTL() ? 'left' : 'right',
+				origin: isRTL() ? 'top right' : 'top left',
+			});
+		}
+
 		// Merge defaults and user options.
 		this.options = Object.assign({}, this.defaults, options);
 
 		// Get the element we will anchor the menu to.
 		this.anchor = this.options.anchor as HTMLElement;
 
-		// Cancel script if we cant find the anchor element.
-		if (!this.anchor) return;
+		// Cancel script if we cant find the anchor element, context menus don't need one.
+		if (!this.anchor && !this.options.contextTarget) return;
 
 		// Get the list element.
 		this.list = this.menu.querySelector(selectors.list);
@@ -69,11 +103,17 @@ export class MDFMenu {
 		// Get a list of all menus.
 		this.menus = document.querySelectorAll(selectors.menu);
 
-		// Get a list of the menu items.
-		this.items = Array.from(this.menu.querySelectorAll(selectors.item));
+		// The data of rendered menu items and the submenu elements we created for them.
+		this.itemData = new Map();
+		this.renderedMenus = [];
 
-		// We store ClientRect information about the menu ahead of time because it doesn't change.
-		this.menuRect = this.menu.getBoundingClientRect();
+		// Menus built from a data model render their items first.
+		if (this.options.items) {
+			this.renderItems();
+		}
+
+		// Get the menu items and their submenus.
+		this.setupItems();
 
 		// The index always starts at 0 (the first menu item).
 		this.index = 0;
@@ -81,8 +121,18 @@ export class MDFMenu {
 		// We start with the expectation that users will interact with the menu using clicks.
 		this.useKeyboard = false;
 
+		// Characters typed to search the menu items.
+		this.typedCharacters = [];
+
 		// Add event listeners to the anchor element.
-		this.anchorEvents();
+		if (this.anchor) {
+			this.anchorEvents();
+		}
+
+		// Add event listeners to the element opening the context menu.
+		if (this.options.contextTarget) {
+			this.contextEvents();
+		}
 	}
 
 	/**
@@ -108,8 +158,17 @@ export class MDFMenu {
 	 * @since 1.0.0
 	 */
 	private setFocusOnFirstItem = () => {
+		// Keep the index in sync, menus can be opened more than once. Disabled items are skipped.
+		this.index = this.findItem(0, 1);
+
+		// Don't continue if every item is disabled.
+		if (this.index < 0) {
+			this.index = 0;
+			return;
+		}
+
 		// Grab the first item from the item list.
-		const firstItem = this.items[0];
+		const firstItem = this.items[this.index];
 
 		// Make sure to set the `tabIndex` to `0` before we set the focus.
 		firstItem.tabIndex = 0;
@@ -158,8 +217,14 @@ export class MDFMenu {
 		// We set the `tabIndex` to `-1` to remove it from the tab flow.
 		lastActiveItem.tabIndex = -1;
 
-		// We set the focus on the anchor.
-		this.anchor.focus();
+		// We set the focus on the anchor. Context menus return it to the element that had it before.
+		if (this.contextPoint) {
+			if (this.returnFocus) {
+				this.returnFocus.focus();
+			}
+		} else if (this.anchor) {
+			this.anchor.focus();
+		}
 	};
 
 	/**
@@ -171,16 +236,8 @@ export class MDFMenu {
 	 * @memberof MDFMenu
 	 */
 	private prevItem = () => {
-		if (this.index >= 1) {
-			// Move to the previous item.
-			this.index--;
-		} else if (this.index === 0) {
-			// If we are on the first item, wrap back around to the last item.
-			this.index = this.items.length - 1;
-		}
-
-		// We move the focus to the previous item.
-		this.setFocusOnItem(this.index);
+		// Move to the previous item. If we are on the first item, wrap back around to the last item.
+		this.moveToItem(this.findItem(this.index - 1, -1));
 	};
 
 	/**
@@ -192,18 +249,447 @@ export class MDFMenu {
 	 * @memberof MDFMenu
 	 */
 	private nextItem = () => {
-		if (this.index === this.items.length - 1) {
-			// If we are on the last item, wrap back around to the first item.
-			this.index = 0;
-		} else if (this.index >= 0) {
-			// Move to the next item.
-			this.index++;
-		}
+		// Move to the next item. If we are on the last item, wrap back around to the first item.
+		this.moveToItem(this.findItem(this.index + 1, 1));
+	};
 
-		// We move the focus to the next item.
+	/**
+	 * moveToItem
+	 *
+	 * We move the focus to the item at the given index. Negative indexes are ignored.
+	 *
+	 * @param {number} index The item's index
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private moveToItem = (index: number) => {
+		// Don't continue if there is no item to move to.
+		if (index < 0) return;
+
+		this.index = index;
+
+		// We move the focus to the item.
 		this.setFocusOnItem(this.index);
 	};
 
+	/**
+	 * isDisabled
+	 *
+	 * Wether or not the given menu item is disabled.
+	 *
+	 * @param {HTMLElement} item The menu item
+	 * @returns {boolean}
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private isDisabled = (item: HTMLElement): boolean => {
+		return item.hasClass(classes.disabled) || item.getAttribute(attr.disabled) === 'true';
+	};
+
+	/**
+	 * findItem
+	 *
+	 * Returns the index of the first enabled item, starting at the given index and moving in the given direction.
+	 * The search wraps around the ends of the menu. Menus without enabled items return `-1`.
+	 *
+	 * @param {number} start The index to start at
+	 * @param {number} step Either `1` to move down or `-1` to move up
+	 * @param {(item: HTMLElement) => boolean} [matches] Additional check the item has to pass
+	 * @returns {number}
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private findItem = (start: number, step: number, matches?: (item: HTMLElement) => boolean): number => {
+		const length = this.items.length;
+
+		for (let i = 0; i < length; i++) {
+			// Keep the index inside the bounds of the menu, wrapping around both ends.
+			const index = (((start + step * i) % length) + length) % length;
+			const item = this.items[index];
+
+			if (!this.isDisabled(item) && (!matches || matches(item))) {
+				return index;
+			}
+		}
+
+		return -1;
+	};
+
+	/**
+	 * getItemText
+	 *
+	 * Returns the text of a menu item used by the typeahead, leaving out shortcut hints.
+	 *
+	 * @param {HTMLElement} item The menu item
+	 * @returns {string}
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private getItemText = (item: HTMLElement): string => {
+		const text = item.querySelector(`.${classes.text}`);
+
+		return (text ? text.textContent : item.textContent).trim().toLowerCase();
+	};
+
+	/**
+	 * setupItems
+	 *
+	 * Get the menu items and create their submenus. We call for this whenever the items are rendered.
+	 *
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private setupItems = () => {
+		// Get a list of the menu items.
+		this.items = Array.from(this.menu.querySelectorAll(selectors.item));
+
+		for (const item of this.items) {
+			// Checkbox and radio items start out unchecked, unless stated otherwise.
+			if (item.matches(selectors.checkable) && !item.hasAttribute(attr.checked)) {
+				item.setAttribute(attr.checked, 'false');
+			}
+
+			// We let assistive technologies know which items are disabled.
+			if (this.isDisabled(item)) {
+				item.setAttribute(attr.disabled, 'true');
+			}
+		}
+
+		// Create the submenus opened by the menu items.
+		this.submenus = this.setupSubmenus();
+
+		// We store ClientRect information about the menu ahead of time because it only changes along with the items.
+		this.menuRect = this.menu.getBoundingClientRect();
+	};
+
+	/**
+	 * setItems
+	 *
+	 * Render the menu from the given items. Call it without items to render the current ones again after changing them.
+	 * Open submenus are closed, the menu itself stays open.
+	 *
+	 * @param {MDFMenuItem[]} [items] The new menu items
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	public setItems = (items?: MDFMenuItem[]): void => {
+		if (items) {
+			this.options.items = items;
+		}
+
+		// Close the submenus, we are about to replace them.
+		if (this.submenu) {
+			this.submenu.closeMenu();
+		}
+
+		this.renderItems();
+		this.setupItems();
+
+		// The focused item might be gone.
+		this.index = 0;
+	};
+
+	/**
+	 * renderItems
+	 *
+	 * Replace the menu items with new ones created from the `items` option.
+	 *
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private renderItems = () => {
+		// Create the list element if the menu doesn't have one yet.
+		if (!this.list) {
+			this.list = document.createElement('ul');
+			this.list.className = classes.list;
+			this.list.tabIndex = -1;
+			this.list.setAttribute(attr.role, 'menu');
+			this.list.setAttribute(attr.orientation, 'vertical');
+			this.list.setAttribute(attr.hidden, 'true');
+
+			this.menu.appendChild(this.list);
+		}
+
+		// Remove the submenu elements of the previous items.
+		this.removeRenderedMenus();
+
+		this.itemData = new Map();
+
+		const docFrag = document.createDocumentFragment();
+
+		for (const data of this.options.items) {
+			docFrag.appendChild(this.createItem(data));
+		}
+
+		// Replace the previous items.
+		this.list.textContent = '';
+		this.list.appendChild(docFrag);
+	};
+
+	/**
+	 * createItem
+	 *
+	 * Create the HTML markup of a menu item. Items with children receive an empty menu element for their submenu.
+	 *
+	 * @param {MDFMenuItem} data The menu item data
+	 * @returns {HTMLElement}
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private createItem = (data: MDFMenuItem): HTMLElement => {
+		const item = document.createElement('li');
+
+		// Separators divide the items, they can't be focused.
+		if (data.separator) {
+			item.className = classes.separator;
+			item.setAttribute(attr.role, 'separator');
+
+			return item;
+		}
+
+		item.className = classes.item;
+		item.tabIndex = -1;
+
+		// Checkbox and radio items have a state, radio items belong to a group.
+		if (data.type === 'checkbox' || data.type === 'radio') {
+			item.setAttribute(attr.role, `menuitem${data.type}`);
+			item.setAttribute(attr.checked, data.checked ? 'true' : 'false');
+
+			if (data.group) {
+				item.setAttribute(attr.group, data.group);
+			}
+		} else {
+			item.setAttribute(attr.role, 'menuitem');
+		}
+
+		if (data.callback) {
+			item.setAttribute(attr.callback, data.callback);
+		}
+
+		if (data.disabled) {
+			item.addClass(classes.disabled);
+		}
+
+		// The leading icon, taken from an SVG sprite.
+		if (data.icon) {
+			const leading = document.createElement('span');
+			leading.className = classes.leading;
+
+			const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+			svg.classList.add(classes.icon);
+			svg.setAttributeNS(null, 'viewBox', '0 0 24 24');
+			svg.setAttributeNS(null, attr.hidden, 'true');
+
+			const use = document.createElementNS('http://www.w3.org/2000/svg', 'use');
+			use.setAttributeNS('http://www.w3.org/1999/xlink', 'href', data.icon);
+
+			svg.appendChild(use);
+			leading.appendChild(svg);
+			item.appendChild(leading);
+		}
+
+		const text = document.createElement('span');
+		text.className = classes.text;
+		text.textContent = data.label;
+		item.appendChild(text);
+
+		// The keyboard shortcut hint, the shortcut itself is up to the page.
+		if (data.shortcut) {
+			const shortcut = document.createElement('span');
+			shortcut.className = `${classes.trailing} ${classes.shortcut}`;
+			shortcut.textContent = data.shortcut;
+			item.appendChild(shortcut);
+		}
+
+		// The submenu element sits next to the menu, its items are rendered by the submenu.
+		// Menus that aren't part of the page yet keep their submenu elements inside the body.
+		if (data.children) {
+			const submenu = document.createElement('div');
+			submenu.className = classes.menu;
+			submenu.id = `${classes.menu}-${++submenuCount}`;
+
+			item.setAttribute(attr.haspopup, 'true');
+			item.setAttribute(attr.controls, submenu.id);
+
+			if (this.menu.parentElement) {
+				this.menu.parentElement.insertBefore(submenu, this.menu.nextSibling);
+			} else {
+				document.body.appendChild(submenu);
+			}
+
+			this.renderedMenus.push(submenu);
+		}
+
+		this.itemData.set(item, data);
+
+		return item;
+	};
+
+	/**
+	 * removeRenderedMenus
+	 *
+	 * Remove the submenu elements we created for menu items, including the ones of nested submenus.
+	 *
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private removeRenderedMenus = () => {
+		for (const submenu of this.submenus ? this.submenus : []) {
+			submenu.removeRenderedMenus();
+		}
+
+		for (const menu of this.renderedMenus) {
+			menu.remove();
+		}
+
+		this.renderedMenus = [];
+	};
+
+	/**
+	 * setupSubmenus
+	 *
+	 * Create a menu for every menu item with `aria-haspopup`, the `aria-controls` attribute holds the ID of its menu element.
+	 * Submenus share the options of their parent menu and open beside their menu item.
+	 *
+	 * @returns {MDFMenu[]}
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private setupSubmenus = (): MDFMenu[] => {
+		const submenus: MDFMenu[] = [];
+
+		for (const item of this.items) {
+			const popup = item.getAttribute(attr.haspopup);
+			const menu = document.getElementById(item.getAttribute(attr.controls));
+
+			// Skip items without a menu element.
+			if (!popup || popup === 'false' || !menu) continue;
+
+			// Submenus open at the end of the reading direction, the position flips if they would be cut off.
+			const submenu = new MDFMenu(
+				menu,
+				Object.assign({}, this.options, {
+					anchor: item,
+					posX: isRTL() ? 'left' : 'right',
+					posY: 'start',
+					origin: isRTL() ? 'top right' : 'top left',
+					onOpen: null,
+					onClose: null,
+					contextTarget: null,
+					items: this.itemData.has(item) ? this.itemData.get(item).children : null,
+				})
+			);
+
+			submenu.parentMenu = this;
+			submenus.push(submenu);
+		}
+
+		return submenus;
+	};
+
+	/**
+	 * getSubmenu
+	 *
+	 * Returns the submenu opened by the given menu item, if any.
+	 *
+	 * @param {HTMLElement} item The menu item
+	 * @returns {MDFMenu}
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private getSubmenu = (item: HTMLElement): MDFMenu => {
+		return this.submenus.find((submenu) => submenu.anchor === item);
+	};
+
+	/**
+	 * getRootMenu
+	 *
+	 * Returns the top level menu, submenus close along with it.
+	 *
+	 * @returns {MDFMenu}
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private getRootMenu = (): MDFMenu => {
+		return this.parentMenu ? this.parentMenu.getRootMenu() : this;
+	};
+
+	/**
+	 * getTarget
+	 *
+	 * Returns the element the menu was opened for, which callbacks receive.
+	 * That is the element a context menu was opened on, or the anchor of the top level menu.
+	 *
+	 * @returns {HTMLElement}
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private getTarget = (): HTMLElement => {
+		const root = this.getRootMenu();
+
+		return root.contextPoint ? root.contextElement : root.anchor;
+	};
+
+	/**
+	 * openSubmenu
+	 *
+	 * Open the submenu of the given menu item. Keyboard users continue inside the submenu.
+	 *
+	 * @param {HTMLElement} item The menu item
+	 * @param {boolean} setFocus Wether or not we set focus on the first item of the submenu
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private openSubmenu = (item: HTMLElement, setFocus?: boolean) => {
+		const submenu = this.getSubmenu(item);
+
+		if (!submenu) return;
+
+		// Keyboard controls carry over to the submenu.
+		if (setFocus) {
+			submenu.useKeyboard = true;
+		}
+
+		submenu.openMenu(setFocus);
+	};
+
+	/**
+	 * hoverSubmenu
+	 *
+	 * Replace the open submenu with the one of the hovered menu item, if any.
+	 *
+	 * @param {HTMLElement} item The hovered menu item
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private hoverSubmenu = (item: HTMLElement) => {
+		// Disabled items don't open their submenu.
+		const submenu = item && !this.isDisabled(item) ? this.getSubmenu(item) : null;
+
+		// Close the open submenu, unless it belongs to the hovered item.
+		if (this.submenu && this.submenu !== submenu) {
+			this.submenu.closeMenu();
+		}
+
+		if (submenu && !submenu.isActive()) {
+			submenu.openMenu();
+		}
+	};
+
 	/**
 	 * openMenu
 	 *
@@ -216,13 +702,37 @@ export class MDFMenu {
 	 * @since 1.0.0
 	 */
 	public openMenu = (setFocus?: boolean): void => {
-		// Hide any other open menu before we continue.
-		for (const menu of this.menus) {
-			menu.removeClass(classes.active);
+		// Context menus without an anchor open at the top left corner of their context target, unless given a position.
+		if (!this.anchor && !this.contextPoint) {
+			const rect = this.options.contextTarget.getBoundingClientRect();
+
+			this.openMenuAt(rect.left, rect.top, null, setFocus);
+			return;
+		}
+
+		if (this.parentMenu) {
+			// Submenus only replace the open submenu of their parent menu.
+			if (this.parentMenu.submenu && this.parentMenu.submenu !== this) {
+				this.parentMenu.submenu.closeMenu();
+			}
+
+			this.parentMenu.submenu = this;
+		} else {
+			// Hide any other open menu before we continue.
+			for (const menu of this.menus) {
+				menu.removeClass(classes.active);
+			}
 		}
 
 		// We get ClientRect information about the anchor whenever we open the menu to always have the right position.
-		this.anchorRect = this.anchor.getBoundingClientRect();
+		// Context menus use the pointer position instead, as if the anchor was a single point.
+		if (this.contextPoint) {
+			const { x, y } = this.contextPoint;
+
+			this.anchorRect = { top: y, right: x, bottom: y, left: x, width: 0, height: 0 } as ClientRect;
+		} else {
+			this.anchorRect = this.anchor.getBoundingClientRect();
+		}
 
 		// We get the viewport width and height to make sure the menu won't be cut off.
 		const docHeight = window.innerHeight;
@@ -239,7 +749,7 @@ export class MDFMenu {
 		// We use these values to check if the menu would be cut off at any side.
 		const isCutOff = {
 			top: this.anchorRect.top - this.menuRect.height < 0 ? true : false,
-			right: this.anchorRect.left + this.menuRect.width > docWidth ? true : false,
+			right: this.anchorRect.left + this.anchorRect.width + this.menuRect.width > docWidth ? true : false,
 			bottom: this.anchorRect.top + this.anchorRect.height + this.menuRect.height > docHeight ? true : false,
 			left: this.anchorRect.left - this.menuRect.width < 0 ? true : false,
 		};
@@ -284,6 +794,13 @@ export class MDFMenu {
 
 				topDelta = isCutOff.bottom ? alternativePos : desiredPos;
 				break;
+			case 'start':
+				desiredPos = this.anchorRect.top;
+				alternativePos = this.anchorRect.top + this.anchorRect.height - this.menuRect.height;
+
+				// The menu grows downwards from the top of the anchor, unless it would be cut off.
+				topDelta = desiredPos + this.menuRect.height > docHeight ? alternativePos : desiredPos;
+				break;
 		}
 
 		// We disable the transitions while we prepare the position and scale of the menu.
@@ -303,7 +820,10 @@ export class MDFMenu {
 		this.menu.addClass(classes.active);
 
 		// We list assistive technologies know that the menu is open.
-		this.anchor.setAttribute(attr.expanded, 'true');
+		if (!this.contextPoint && this.anchor) {
+			this.anchor.setAttribute(attr.expanded, 'true');
+		}
+
 		this.list.removeAttribute(attr.hidden);
 
 		// Once the menu starts fading-in, all we do is change the scale back to `1` for a smooth effect.
@@ -343,11 +863,29 @@ export class MDFMenu {
 	 * @since 1.0.0
 	 */
 	public closeMenu = (setFocus?: boolean): void => {
+		// Close the open submenu along with the menu.
+		if (this.submenu) {
+			this.submenu.closeMenu();
+		}
+
+		// Let the parent menu know the submenu is closed.
+		if (this.parentMenu && this.parentMenu.submenu === this) {
+			this.parentMenu.submenu = null;
+		}
+
+		// Stop waiting for the pointer to settle.
+		clearTimeout(this.hoverTimer);
+		this.hoverItem = null;
+		this.pointer = null;
+
 		// Fade-out the menu.
 		this.menu.removeClass(classes.active);
 
 		// We list assistive technologies know that the menu is closed.
-		this.anchor.removeAttribute(attr.expanded);
+		if (!this.contextPoint && this.anchor) {
+			this.anchor.removeAttribute(attr.expanded);
+		}
+
 		this.list.setAttribute(attr.hidden, 'true');
 
 		// If available, execute the callback function when closing the menu.
@@ -368,6 +906,9 @@ export class MDFMenu {
 			}
 		}
 
+		// The anchor opens the menu at its usual position again.
+		this.contextPoint = null;
+
 		// Dispatch event letting user know the menu is closed.
 		this.menu.dispatchEvent(new Event(events.closed));
 	};
@@ -386,11 +927,220 @@ export class MDFMenu {
 		const _this = evt.target as HTMLElement;
 
 		// We close the menu if the clicked element is neither the anchor, menu or anything inside of it.
-		if (_this !== this.anchor && !this.menu.contains(_this)) {
+		if (!(this.anchor && this.anchor.contains(_this)) && !this.menu.contains(_this)) {
+			this.closeMenu();
+		}
+	};
+
+	/**
+	 * closeMenuOnContextMenu
+	 *
+	 * Close the context menu when it is requested outside of its target element.
+	 * Inside of it, the context menu moves to the new position instead.
+	 *
+	 * @param {Event} evt The event listener reference
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private closeMenuOnContextMenu = (evt: Event) => {
+		const _this = evt.target as HTMLElement;
+
+		if (!this.getContextElement(_this) && !this.menu.contains(_this)) {
 			this.closeMenu();
 		}
 	};
 
+	/**
+	 * openMenuAt
+	 *
+	 * Open the menu as a context menu at the given position, e.g. the pointer position.
+	 * The position flips like anchored menus do if the menu would be cut off.
+	 *
+	 * @param {number} x Horizontal position in the viewport
+	 * @param {number} y Vertical position in the viewport
+	 * @param {HTMLElement} [target] The element the menu is opened for, callbacks receive it
+	 * @param {boolean} [setFocus] Wether or not we set focus on the first menu item
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	public openMenuAt = (x: number, y: number, target?: HTMLElement, setFocus?: boolean): void => {
+		// Close the submenus still open from the previous position.
+		if (this.submenu) {
+			this.submenu.closeMenu();
+		}
+
+		this.contextPoint = { x, y };
+		this.contextElement = target ? target : null;
+
+		// Keyboard users get their focus back once the menu closes.
+		if (!this.menu.contains(document.activeElement)) {
+			this.returnFocus = document.activeElement as HTMLElement;
+		}
+
+		this.openMenu(setFocus);
+	};
+
+	/**
+	 * getContextElement
+	 *
+	 * Returns the element inside the context target matching `contextSelector`, starting at the given element.
+	 * Without a selector the whole context target opens the menu.
+	 *
+	 * @param {Element} element The element the context menu was requested on
+	 * @returns {HTMLElement}
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private getContextElement = (element: Element): HTMLElement => {
+		const scope = this.options.contextTarget;
+
+		// Only elements inside the context target open the menu.
+		if (!element || !scope.contains(element)) return null;
+
+		if (!this.options.contextSelector) return scope as HTMLElement;
+
+		const match = element.closest<HTMLElement>(this.options.contextSelector);
+
+		return match && scope.contains(match) ? match : null;
+	};
+
+	/**
+	 * contextMenuEvents
+	 *
+	 * Open the context menu at the pointer instead of the native one, e.g. by right-click.
+	 *
+	 * @param {MouseEvent} evt The event listener reference
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private contextMenuEvents = (evt: MouseEvent) => {
+		const target = this.getContextElement(evt.target as Element);
+
+		// Elements not matching the selector keep the native context menu.
+		if (!target || this.menu.contains(evt.target as Node)) return;
+
+		evt.preventDefault();
+
+		// Keyboards and long presses already opened the menu, some browsers request it again afterwards.
+		// Only right-clicks move the open menu.
+		if (evt.button !== 2 && this.isActive()) return;
+
+		this.cancelPress();
+		this.openMenuAt(evt.clientX, evt.clientY, target);
+	};
+
+	/**
+	 * contextKeyEvents
+	 *
+	 * Open the context menu beneath the focused element with [Shift] + [F10] or the [Menu] key.
+	 *
+	 * @param {KeyboardEvent} evt The event listener reference
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private contextKeyEvents = (evt: KeyboardEvent) => {
+		if (evt.key !== 'ContextMenu' && !(evt.shiftKey && evt.key === 'F10')) return;
+
+		const target = this.getContextElement(evt.target as Element);
+
+		if (!target) return;
+
+		// Prevent the native context menu.
+		evt.preventDefault();
+
+		// The menu opens at the start of the focused element, right beneath it.
+		const rect = (evt.target as HTMLElement).getBoundingClientRect();
+
+		// Enable keyboard controls.
+		this.useKeyboard = true;
+
+		this.openMenuAt(isRTL() ? rect.right : rect.left, rect.bottom, target, true);
+	};
+
+	/**
+	 * pressStart
+	 *
+	 * Start waiting for a long press on touch screens.
+	 *
+	 * @param {PointerEvent} evt The event listener reference
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private pressStart = (evt: PointerEvent) => {
+		this.cancelPress();
+
+		// Mice and pens use the native context menu event.
+		if (evt.pointerType !== 'touch') return;
+
+		const target = this.getContextElement(evt.target as Element);
+
+		if (!target) return;
+
+		this.pressPoint = { x: evt.clientX, y: evt.clientY };
+
+		this.pressTimer = setTimeout(() => {
+			this.openMenuAt(this.pressPoint.x, this.pressPoint.y, target);
+		}, this.options.longPressDelay);
+	};
+
+	/**
+	 * pressMove
+	 *
+	 * Cancel the long press once the finger moves too far, e.g. to scroll.
+	 *
+	 * @param {PointerEvent} evt The event listener reference
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private pressMove = (evt: PointerEvent) => {
+		if (!this.pressPoint) return;
+
+		if (Math.abs(evt.clientX - this.pressPoint.x) > 10 || Math.abs(evt.clientY - this.pressPoint.y) > 10) {
+			this.cancelPress();
+		}
+	};
+
+	/**
+	 * cancelPress
+	 *
+	 * Stop waiting for a long press.
+	 *
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private cancelPress = () => {
+		clearTimeout(this.pressTimer);
+
+		this.pressPoint = null;
+	};
+
+	/**
+	 * contextEvents
+	 *
+	 * Add event listeners to the context target, we use event delegation to match the `contextSelector`.
+	 *
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private contextEvents = () => {
+		const scope = this.options.contextTarget;
+
+		scope.addEventListener('contextmenu', this.contextMenuEvents);
+		scope.addEventListener('keydown', this.contextKeyEvents);
+		scope.addEventListener('pointerdown', this.pressStart);
+		scope.addEventListener('pointermove', this.pressMove);
+		scope.addEventListener('pointerup', this.cancelPress);
+		scope.addEventListener('pointercancel', this.cancelPress);
+	};
+
 	/**
 	 * anchorEvents
 	 *
@@ -402,11 +1152,15 @@ export class MDFMenu {
 	 */
 	private anchorEvents = () => {
 		// If the anchor is activated by click, we simply open the menu.
-		this.anchor.addEventListener('click', () => this.openMenu());
+		this.anchor.addEventListener('click', () => {
+			if (!this.isAnchorDisabled()) {
+				this.openMenu();
+			}
+		});
 
 		// If the anchor is activated by keypress, we open the menu and add keyboard events.
 		this.anchor.addEventListener('keydown', (evt: KeyboardEvent) => {
-			if (evt.key === 'Enter' || evt.key === ' ') {
+			if ((evt.key === 'Enter' || evt.key === ' ') && !this.isAnchorDisabled()) {
 				// Prevent default behavior, stops the keypress from emulating a click.
 				evt.preventDefault();
 
@@ -419,6 +1173,20 @@ export class MDFMenu {
 		});
 	};
 
+	/**
+	 * isAnchorDisabled
+	 *
+	 * Wether or not the anchor of a submenu is a disabled menu item, which keeps the submenu closed.
+	 *
+	 * @returns {boolean}
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private isAnchorDisabled = (): boolean => {
+		return this.parentMenu ? this.parentMenu.isDisabled(this.anchor) : false;
+	};
+
 	/**
 	 * menuEvents
 	 *
@@ -432,38 +1200,240 @@ export class MDFMenu {
 		// Stop the event from bubbling up.
 		evt.stopPropagation();
 
-		// The clicked element.
-		const _this = evt.target as HTMLElement;
+		// The clicked menu item, the click might have hit one of its children.
+		const _this = (evt.target as HTMLElement).closest<HTMLElement>(selectors.item);
 
-		// We make sure it is a menu item.
-		if (_this.getAttribute(attr.role) === 'menuitem') {
-			// Get the name of the callback attached to the item.
-			const callbackName = _this.getAttribute(attr.callback);
+		// We make sure it is an enabled menu item of this menu. Items with a submenu open it instead.
+		if (_this && this.items.includes(_this) && !this.isDisabled(_this) && !this.getSubmenu(_this)) {
+			this.activateItem(_this);
+		}
+	};
 
-			// Save a reference to the callback.
-			const callback = this.options.callbacks[callbackName];
+	/**
+	 * activateItem
+	 *
+	 * Toggle checkbox and radio items, run the callback associated with the menu item and close the menu.
+	 * Menus stay open after toggling an item if `closeOnToggle` is disabled.
+	 *
+	 * @param {HTMLElement} item The activated menu item
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private activateItem = (item: HTMLElement) => {
+		// Checkbox items switch their state, radio items are checked. Regular items don't have a state.
+		const checked = item.matches(selectors.checkable) ? this.toggleItem(item) : null;
+
+		// Get the name of the callback attached to the item.
+		const callbackName = item.getAttribute(attr.callback);
+
+		// Save a reference to the callback.
+		const callback = this.options.callbacks[callbackName];
+
+		// If available, execute it.
+		if (callback) {
+			callback(this.getTarget(), checked);
+		}
+
+		// Rendered menu items can have a handler of their own.
+		const data = this.itemData.get(item);
+
+		if (data && data.handler) {
+			data.handler(this.getTarget(), checked);
+		}
+
+		// Dispatch event letting user know the a menu item has been activated.
+		this.menu.dispatchEvent(
+			new CustomEvent<MDFMenuActivatedEvent>(events.activated, {
+				detail: {
+					callback: callbackName,
+					index: this.items.indexOf(item),
+					item,
+					target: this.getTarget(),
+					checked,
+				},
+			})
+		);
+
+		// Close the menu, along with its parent menus.
+		if (checked === null || this.options.closeOnToggle) {
+			this.getRootMenu().closeMenu();
+		}
+	};
+
+	/**
+	 * toggleItem
+	 *
+	 * Switch the state of a checkbox item, or check a radio item.
+	 *
+	 * @param {HTMLElement} item The menu item
+	 * @returns {boolean} The new state of the item
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private toggleItem = (item: HTMLElement): boolean => {
+		const checked = item.getAttribute(attr.role) === 'menuitemradio' ? true : !this.isChecked(item);
+
+		this.setChecked(item, checked);
+
+		return checked;
+	};
+
+	/**
+	 * getItem
+	 *
+	 * Returns the menu item at the given index, or the given menu item itself.
+	 *
+	 * @param {(number | HTMLElement)} item The menu item or its index
+	 * @returns {HTMLElement}
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private getItem = (item: number | HTMLElement): HTMLElement => {
+		return typeof item === 'number' ? this.items[item] : item;
+	};
+
+	/**
+	 * isChecked
+	 *
+	 * Wether or not the given checkbox or radio item is checked.
+	 *
+	 * @param {(number | HTMLElement)} item The menu item or its index
+	 * @returns {boolean}
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	public isChecked = (item: number | HTMLElement): boolean => {
+		const element = this.getItem(item);
+
+		return element ? element.getAttribute(attr.checked) === 'true' : false;
+	};
 
-			// If available, execute it.
-			if (callback) {
-				callback();
+	/**
+	 * setChecked
+	 *
+	 * Check or uncheck the given checkbox or radio item, without running its callback.
+	 * Checking a radio item unchecks the other radio items of its group.
+	 *
+	 * @param {(number | HTMLElement)} item The menu item or its index
+	 * @param {boolean} checked The new state of the item
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	public setChecked = (item: number | HTMLElement, checked: boolean): void => {
+		const element = this.getItem(item);
+
+		// Only checkbox and radio items have a state.
+		if (!element || !element.matches(selectors.checkable)) return;
+
+		// Radio items sharing the `data-menu-group` name are exclusive, radio items without one share a group.
+		if (checked && element.getAttribute(attr.role) === 'menuitemradio') {
+			for (const radio of this.getRadioGroup(element)) {
+				this.setItemState(radio, false);
 			}
+		}
 
-			// Dispatch event letting user know the a menu item has been activated.
-			this.menu.dispatchEvent(
-				new CustomEvent<MDFMenuActivatedEvent>(events.activated, {
-					detail: {
-						callback: callbackName,
-						index: this.index,
-						item: _this,
-					},
-				})
-			);
+		this.setItemState(element, checked);
+	};
 
-			// Close the menu.
-			this.closeMenu();
+	/**
+	 * setItemState
+	 *
+	 * Update the state of a checkbox or radio item. Rendered menu items keep their data in sync,
+	 * so rendering the menu again keeps the state.
+	 *
+	 * @param {HTMLElement} item The menu item
+	 * @param {boolean} checked The new state of the item
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private setItemState = (item: HTMLElement, checked: boolean) => {
+		item.setAttribute(attr.checked, checked ? 'true' : 'false');
+
+		if (this.itemData.has(item)) {
+			this.itemData.get(item).checked = checked;
 		}
 	};
 
+	/**
+	 * getRadioGroup
+	 *
+	 * Returns the radio items sharing the group of the given radio item.
+	 *
+	 * @param {HTMLElement} item The radio item
+	 * @returns {HTMLElement[]}
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private getRadioGroup = (item: HTMLElement): HTMLElement[] => {
+		const group = item.getAttribute(attr.group);
+
+		return this.items.filter(
+			(radio) => radio.getAttribute(attr.role) === 'menuitemradio' && radio.getAttribute(attr.group) === group
+		);
+	};
+
+	/**
+	 * hoverEvents
+	 *
+	 * Open the submenu of a menu item once the pointer rests on it.
+	 * While the pointer moves toward the open submenu, crossing other items doesn't close it right away.
+	 *
+	 * @param {MouseEvent} evt The event listener reference
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private hoverEvents = (evt: MouseEvent) => {
+		const item = (evt.target as HTMLElement).closest<HTMLElement>(selectors.item);
+
+		// Remember the pointer position to compare it with the next one.
+		const origin = this.pointer;
+		const point = { x: evt.clientX, y: evt.clientY };
+
+		this.pointer = point;
+
+		// Wether the pointer is on its way to the open submenu.
+		const heading =
+			this.submenu &&
+			item !== this.submenu.anchor &&
+			origin &&
+			isInSafeTriangle(point, origin, this.submenu.menu.getBoundingClientRect());
+
+		// The timer is already running for this item.
+		if (!heading && item === this.hoverItem) return;
+
+		this.hoverItem = item;
+
+		// Wait for the pointer to settle, moving toward the submenu keeps postponing the switch.
+		clearTimeout(this.hoverTimer);
+
+		this.hoverTimer = setTimeout(
+			() => this.hoverSubmenu(item),
+			heading ? this.options.submenuCloseDelay : this.options.submenuOpenDelay
+		);
+	};
+
+	/**
+	 * leaveEvents
+	 *
+	 * Stop waiting for the pointer to settle once it leaves the menu, e.g. to enter the open submenu.
+	 *
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private leaveEvents = () => {
+		clearTimeout(this.hoverTimer);
+
+		this.hoverItem = null;
+		this.pointer = null;
+	};
+
 	/**
 	 * addMenuEvents
 	 *
@@ -476,10 +1446,16 @@ export class MDFMenu {
 	 */
 	private addMenuEvents = () => {
 		this.menu.addEventListener('click', this.menuEvents);
+		this.menu.addEventListener('mousemove', this.hoverEvents);
+		this.menu.addEventListener('mouseleave', this.leaveEvents);
 
 		if (this.options.hideOnClick) {
 			document.addEventListener('click', this.closeMenuOnClick);
 		}
+
+		if (this.options.contextTarget) {
+			document.addEventListener('contextmenu', this.closeMenuOnContextMenu);
+		}
 	};
 
 	/**
@@ -494,10 +1470,16 @@ export class MDFMenu {
 	 */
 	private removeMenuEvents = () => {
 		this.menu.removeEventListener('click', this.menuEvents);
+		this.menu.removeEventListener('mousemove', this.hoverEvents);
+		this.menu.removeEventListener('mouseleave', this.leaveEvents);
 
 		if (this.options.hideOnClick) {
 			document.removeEventListener('click', this.closeMenuOnClick);
 		}
+
+		if (this.options.contextTarget) {
+			document.removeEventListener('contextmenu', this.closeMenuOnContextMenu);
+		}
 	};
 
 	/**
@@ -522,8 +1504,34 @@ export class MDFMenu {
 
 			// We use [Tab] OR the [↓] key to move to the next item.
 			this.nextItem();
+		} else if (evt.key === 'Home') {
+			// Prevent default keypress behavior.
+			evt.preventDefault();
+
+			// We use the [Home] key to move to the first item.
+			this.moveToItem(this.findItem(0, 1));
+		} else if (evt.key === 'End') {
+			// Prevent default keypress behavior.
+			evt.preventDefault();
+
+			// We use the [End] key to move to the last item.
+			this.moveToItem(this.findItem(this.items.length - 1, -1));
+		} else if (evt.key === (isRTL() ? 'ArrowLeft' : 'ArrowRight')) {
+			// We use the [→] key to enter the submenu of the item, [←] in RTL mode. Disabled items keep it closed.
+			if (this.getSubmenu(evt.target as HTMLElement) && !this.isDisabled(evt.target as HTMLElement)) {
+				evt.preventDefault();
+
+				this.openSubmenu(evt.target as HTMLElement, true);
+			}
+		} else if (evt.key === (isRTL() ? 'ArrowRight' : 'ArrowLeft')) {
+			// We use the [←] key to leave a submenu, [→] in RTL mode.
+			if (this.parentMenu) {
+				evt.preventDefault();
+
+				this.closeMenu(true);
+			}
 		} else if (evt.key === 'Escape') {
-			// Close the menu using the [ESC] key.
+			// Close the menu using the [ESC] key, submenus close one level at a time.
 			this.closeMenu(true);
 		}
 	};
@@ -546,31 +1554,57 @@ export class MDFMenu {
 			// We prevent default key behavior.
 			evt.preventDefault();
 
-			// We make sure it is a menu item.
-			if (_this.getAttribute(attr.role) === 'menuitem') {
+			// We make sure it is a menu item. Items with a submenu open it through their own key events.
+			if (_this.matches(selectors.item) && !this.getSubmenu(_this)) {
 				// And that it is not disabled.
-				if (!_this.hasClass(classes.disabled)) {
+				if (!this.isDisabled(_this)) {
 					// Stop the event from bubbling up.
 					evt.stopPropagation();
 
-					// Get the name of the callback attached to the item.
-					const callbackName = _this.getAttribute(attr.callback);
-
-					// Save a reference to the callback.
-					const callback = this.options.callbacks[callbackName];
-
-					// If available, execute it.
-					if (callback) {
-						callback();
-					}
-
-					// Close the menu.
-					this.closeMenu();
+					this.activateItem(_this);
 				}
 			}
 		}
 	};
 
+	/**
+	 * keyboardTypeAhead
+	 *
+	 * Typeahead feature moves the focus to the next item starting with the characters typed in rapid succession.
+	 * Typing the same character repeatedly cycles through the items starting with it.
+	 *
+	 * @param {KeyboardEvent} evt The event listener reference
+	 * @private
+	 * @memberof MDFMenu
+	 * @since 1.1.0
+	 */
+	private keyboardTypeAhead = (evt: KeyboardEvent) => {
+		// Make sure we only use printable characters, the [Space bar] activates items and shortcuts are left alone.
+		if (evt.key.length !== 1 || evt.key === ' ' || evt.ctrlKey || evt.metaKey || evt.altKey) return;
+
+		// The timer resets as soon as another character is hit on the keyboard.
+		clearTimeout(this.typeAheadTimer);
+
+		// Every typed character gets added to our array.
+		this.typedCharacters.push(evt.key.toLowerCase());
+
+		// Reset the characters for the next search.
+		this.typeAheadTimer = setTimeout(() => {
+			this.typedCharacters = [];
+		}, 500);
+
+		// Repeating a character searches for it alone, starting after the focused item.
+		// Longer searches keep the focused item as long as it still matches.
+		const repeated = this.typedCharacters.every((character) => character === this.typedCharacters[0]);
+		const searchValue = repeated ? this.typedCharacters[0] : this.typedCharacters.join('');
+
+		this.moveToItem(
+			this.findItem(repeated ? this.index + 1 : this.index, 1, (item) =>
+				this.getItemText(item).startsWith(searchValue)
+			)
+		);
+	};
+
 	/**
 	 * addKeyboardEvents
 	 *
@@ -584,6 +1618,7 @@ export class MDFMenu {
 	private addKeyboardEvents = () => {
 		this.menu.addEventListener('keydown', this.keyboardNavigation);
 		this.menu.addEventListener('keydown', this.keyboardMenuEvents);
+		this.menu.addEventListener('keydown', this.keyboardTypeAhead);
 	};
 
 	/**
@@ -599,6 +1634,7 @@ export class MDFMenu {
 	private removeKeyboardEvents = () => {
 		this.menu.removeEventListener('keydown', this.keyboardNavigation);
 		this.menu.removeEventListener('keydown', this.keyboardMenuEvents);
+		this.menu.removeEventListener('keydown', this.keyboardTypeAhead);
 	};
 }
 
@@ -1,18 +1,46 @@
 interface MDFMenuOptions {
-	anchor: Element;
+	anchor?: Element;
 	posX?: string;
 	posY?: string;
 	origin?: string;
-	callbacks?: Record<string, () => void>;
+	callbacks?: Record<string, (target?: HTMLElement, checked?: boolean) => void>;
 	onOpen?: () => void;
 	onClose?: () => void;
 	hideOnClick?: boolean;
+	closeOnToggle?: boolean;
+	submenuOpenDelay?: number;
+	submenuCloseDelay?: number;
+	contextTarget?: Element;
+	contextSelector?: string;
+	longPressDelay?: number;
+	items?: MDFMenuItem[];
+}
+
+interface MDFMenuItem {
+	label?: string;
+	icon?: string;
+	shortcut?: string;
+	disabled?: boolean;
+	separator?: boolean;
+	type?: string;
+	checked?: boolean;
+	group?: string;
+	callback?: string;
+	handler?: (target?: HTMLElement, checked?: boolean) => void;
+	children?: MDFMenuItem[];
 }
 
 interface MDFMenuActivatedEvent {
 	callback: string;
 	index: number;
 	item: HTMLElement;
+	target: HTMLElement;
+	checked: boolean;
+}
+
+interface MDFMenuPoint {
+	x: number;
+	y: number;
 }
 
-export { MDFMenuOptions, MDFMenuActivatedEvent };
+export { MDFMenuOptions, MDFMenuActivatedEvent, MDFMenuItem, MDFMenuPoint };
@@ -1,48 +1,154 @@
 const attr = {
+	busy: 'aria-busy',
+	cellLabel: 'data-label',
 	checked: 'aria-checked',
+	controls: 'aria-controls',
+	current: 'aria-current',
+	editable: 'data-editable',
+	editor: 'data-editor',
+	exportAction: 'data-export-action',
+	exportFormat: 'data-export-format',
+	exportRows: 'data-export-rows',
+	expanded: 'aria-expanded',
 	format: 'data-date-format',
+	groupKey: 'data-group-key',
+	hasChildren: 'data-has-children',
+	level: 'aria-level',
+	live: 'aria-live',
+	role: 'role',
+	hidden: 'aria-hidden',
+	label: 'aria-label',
+	page: 'data-page',
+	parentId: 'data-parent-id',
+	pressed: 'aria-pressed',
 	sort: 'aria-sort',
+	sortPriority: 'data-sort-priority',
+	sortValue: 'data-sort-value',
 	rowCount: 'aria-rowcount',
 	rowIndex: 'aria-rowindex',
+	rowId: 'data-row-id',
+	selected: 'aria-selected',
 	tooltip: 'data-tooltip',
 	type: 'data-column-type',
 };
 
 const classes = {
+	cards: 'mdf-table--cards',
+	container: 'mdf-table',
 	condensed: 'mdf-table--condensed',
+	loading: 'mdf-table--loading',
+	stickyHeader: 'mdf-table--sticky-header',
+	cell: 'mdf-table__cell',
+	cellEditable: 'mdf-table__cell--editable',
+	cellEditing: 'mdf-table__cell--editing',
+	cellAggregate: 'mdf-table__cell--aggregate',
+	cellFrozen: 'mdf-table__cell--frozen',
+	cellFrozenEdgeStart: 'mdf-table__cell--frozen-edge-start',
+	cellFrozenEdgeEnd: 'mdf-table__cell--frozen-edge-end',
+	columnChooserItem: 'mdf-table__column-chooser-item',
+	content: 'mdf-table__content',
+	detail: 'mdf-table__detail',
+	detailToggle: 'mdf-table__detail-toggle',
+	dragHandle: 'mdf-table__drag-handle',
+	editor: 'mdf-table__editor',
+	footer: 'mdf-table__footer',
+	groupLabel: 'mdf-table__group-label',
+	groupToggle: 'mdf-table__group-toggle',
+	header: 'mdf-table__header',
+	headerSortable: 'mdf-table__header--sortable',
 	headerActive: 'mdf-table__header--active',
+	headerCheckbox: 'mdf-table__header--checkbox',
+	headerDragging: 'mdf-table__header--dragging',
+	headerDropTarget: 'mdf-table__header--drop-target',
+	headerResizing: 'mdf-table__header--resizing',
+	hidden: 'mdf-hidden',
+	live: 'mdf-table__live',
 	sortASC: 'mdf-table__header--sort-asc',
 	sortDESC: 'mdf-table__header--sort-desc',
 	checkboxChecked: 'mdf-checkbox--checked',
 	checkboxIntermediate: 'mdf-checkbox--indeterminate',
+	row: 'mdf-table__row',
+	rowHeader: 'mdf-table__row--header',
+	rowFooter: 'mdf-table__row--footer',
+	rowGroup: 'mdf-table__row--group',
+	rowDetail: 'mdf-table__row--detail',
+	rowDragging: 'mdf-table__row--dragging',
+	rowDropAfter: 'mdf-table__row--drop-after',
+	rowDropBefore: 'mdf-table__row--drop-before',
+	rowMessage: 'mdf-table__row--message',
 	rowSelected: 'mdf-table__row--selected',
+	spacer: 'mdf-table__spacer',
+	table: 'mdf-table__table',
+	treeToggle: 'mdf-table__tree-toggle',
+	treeToggleLeaf: 'mdf-table__tree-toggle--leaf',
+	virtual: 'mdf-table--virtual',
 	paginationControlDisabled: 'mdf-table__pagination-control--disabled',
+	paginationEllipsis: 'mdf-table__pagination-ellipsis',
+	paginationPage: 'mdf-table__pagination-page',
+	paginationPageActive: 'mdf-table__pagination-page--active',
+	resizeHandle: 'mdf-table__resize-handle',
 };
 
 const events = {
+	detailsToggled: 'MDFTable:detailstoggled',
+	edited: 'MDFTable:edited',
+	exportError: 'MDFTable:exporterror',
+	filtered: 'MDFTable:filtered',
+	filterError: 'MDFTable:filtererror',
+	grouped: 'MDFTable:grouped',
+	groupToggled: 'MDFTable:grouptoggled',
+	layoutChanged: 'MDFTable:layoutchanged',
+	layoutSwitched: 'MDFTable:layoutswitched',
+	loaded: 'MDFTable:loaded',
+	loadError: 'MDFTable:loaderror',
 	paginated: 'MDFTable:paginated',
+	pivoted: 'MDFTable:pivoted',
+	reordered: 'MDFTable:reordered',
+	selectionChanged: 'MDFTable:selectionchanged',
+	selectChanged: 'MDFSelect:changed',
+	selectClosed: 'MDFSelect:closed',
 	sorted: 'MDFTable:sorted',
+	treeToggled: 'MDFTable:treetoggled',
 };
 
 const selectors = {
+	cellEditable: '.mdf-table__cell--editable',
 	checkbox: '.mdf-checkbox',
+	checkboxIndeterminate: '.mdf-checkbox__indeterminate',
 	checkboxInput: '.mdf-checkbox__input',
+	columnChooser: '.mdf-table__column-chooser',
 	container: '.mdf-table',
+	detailToggle: '.mdf-table__detail-toggle',
+	dragHandle: '.mdf-table__drag-handle',
+	editor: '.mdf-table__editor',
+	exportControl: '[data-export-format]',
+	gridCell: 'th, td',
+	groupToggle: '.mdf-table__group-toggle',
 	header: '.mdf-table__header',
+	headerCheckbox: '.mdf-table__header--checkbox',
 	pagination: '.mdf-table__pagination',
 	paginationSelect: '.mdf-table__pagination-select',
 	paginationStats: '.mdf-table__pagination-stats',
 	paginationPrev: '[data-pagination-action="prev"]',
 	paginationNext: '[data-pagination-action="next"]',
+	paginationFirst: '[data-pagination-action="first"]',
+	paginationLast: '[data-pagination-action="last"]',
+	paginationPages: '.mdf-table__pagination-pages',
+	paginationPage: '.mdf-table__pagination-page',
+	paginationJump: '.mdf-table__pagination-jump',
+	resizeHandle: '.mdf-table__resize-handle',
+	selectButton: '.mdf-select__button',
 	selectedRows: '.mdf-table__row--selected',
 	sortable: '.mdf-table__header--sortable',
 	row: '.mdf-table__row',
 	table: '.mdf-table__table',
+	treeToggle: '.mdf-table__tree-toggle',
 };
 
 const strings = {
 	spacing: 'mirai-table-spacing',
 	itemsPerPage: 'mirai-table-page-limit',
+	layout: 'mirai-table-layout',
 };
 
 export { attr, classes, events, selectors, strings };
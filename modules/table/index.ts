@@ -1,3 +1,6 @@
 export * from './constants';
 export * from './types';
 export * from './mdf-table';
+export { MDFTablePivot } from './mdf-table-pivot';
+export { registerColumnType, getColumnType } from './mdf-table-columns';
+export { createMemoryProvider } from './mdf-table-provider';
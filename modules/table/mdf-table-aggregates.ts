@@ -0,0 +1,81 @@
+import { getColumnType } from './mdf-table-columns';
+import { MDFTableAggregateFunction } from './types';
+
+/**
+ * Aggregates
+ *
+ * Registry of functions the table uses to summarize the values of a column, e.g. for group rows and the totals footer.
+ *
+ * @version 1.1.0
+ */
+
+/**
+ * toNumbers
+ *
+ * Convert values to numbers, leaving out everything that isn't one.
+ *
+ * @param {unknown[]} values The values to convert
+ * @returns {number[]}
+ */
+function toNumbers(values: unknown[]): number[] {
+	return values
+		.map((value) => (typeof value === 'number' ? value : (getColumnType('number').parse(String(value)) as number)))
+		.filter((value) => !isNaN(value));
+}
+
+// The registered aggregate functions, stored with lowercase names.
+const aggregates: Record<string, MDFTableAggregateFunction> = {
+	count: (values) => {
+		return values.length;
+	},
+	sum: (values) => {
+		return toNumbers(values).reduce((total, value) => total + value, 0);
+	},
+	avg: (values) => {
+		const numbers = toNumbers(values);
+
+		return numbers.length ? numbers.reduce((total, value) => total + value, 0) / numbers.length : NaN;
+	},
+	min: (values) => {
+		const numbers = toNumbers(values);
+
+		// Large columns would exceed the number of arguments a function call can take, so we don't spread them.
+		return numbers.length ? numbers.reduce((min, value) => (value < min ? value : min)) : NaN;
+	},
+	max: (values) => {
+		const numbers = toNumbers(values);
+
+		return numbers.length ? numbers.reduce((max, value) => (value > max ? value : max)) : NaN;
+	},
+};
+
+/**
+ * registerAggregate
+ *
+ * Register a new aggregate function or replace an existing one.
+ *
+ * @export
+ * @param {string} name Name of the aggregate function
+ * @param {MDFTableAggregateFunction} aggregate The function that summarizes the column values
+ * @version 1.1.0
+ */
+export function registerAggregate(name: string, aggregate: MDFTableAggregateFunction): void {
+	aggregates[name.toLowerCase()] = aggregate;
+}
+
+/**
+ * getAggregate
+ *
+ * Returns the aggregate function registered with the given name.
+ * Unknown names return the `count` function.
+ *
+ * @export
+ * @param {string} name Name of the aggregate function
+ * @returns {MDFTableAggregateFunction}
+ * @version 1.1.0
+ */
+export function getAggregate(name: string): MDFTableAggregateFunction {
+	const aggregate = name ? aggregates[name.toLowerCase()] : null;
+
+	return aggregate ? aggregate : aggregates.count;
+}
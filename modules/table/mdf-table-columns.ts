@@ -0,0 +1,258 @@
+import { attr } from './constants';
+import { MDFTableColumnType } from './types';
+
+/**
+ * Column types
+ *
+ * Registry of column types the table uses to extract, parse and compare cell values while sorting.
+ *
+ * @version 1.1.0
+ */
+
+// Multipliers for file size units.
+const fileSizeUnits: Record<string, number> = {
+	b: 1,
+	kb: 1e3,
+	mb: 1e6,
+	gb: 1e9,
+	tb: 1e12,
+	pb: 1e15,
+	kib: 1024,
+	mib: 1024 ** 2,
+	gib: 1024 ** 3,
+	tib: 1024 ** 4,
+	pib: 1024 ** 5,
+};
+
+// Multipliers for duration units, in seconds.
+const durationUnits: Record<string, number> = {
+	w: 604800,
+	d: 86400,
+	h: 3600,
+	m: 60,
+	s: 1,
+	ms: 0.001,
+};
+
+// We use the Collator object to compare strings. It will follow a natural order aware of text and numbers.
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * getSortValue
+ *
+ * Returns the value of a table cell used for sorting.
+ * The `data-sort-value` attribute takes preference over the text content.
+ *
+ * @export
+ * @param {HTMLTableCellElement} cell The table cell element
+ * @returns {string}
+ * @version 1.1.0
+ */
+export function getSortValue(cell: HTMLTableCellElement): string {
+	if (!cell) return '';
+
+	return cell.hasAttribute(attr.sortValue) ? cell.getAttribute(attr.sortValue) : cell.textContent.trim();
+}
+
+/**
+ * compareValues
+ *
+ * Compare two parsed values in ascending order.
+ * Empty values always move to the end, numbers are compared numerically and everything else as text.
+ *
+ * @export
+ * @param {unknown} a The first value
+ * @param {unknown} b The second value
+ * @returns {number}
+ * @version 1.1.0
+ */
+export function compareValues(a: unknown, b: unknown): number {
+	// Check for values that could not be parsed.
+	const aEmpty = a === null || a === undefined || a === '' || (typeof a === 'number' && isNaN(a));
+	const bEmpty = b === null || b === undefined || b === '' || (typeof b === 'number' && isNaN(b));
+
+	if (aEmpty || bEmpty) {
+		return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1;
+	}
+
+	if (typeof a === 'number' && typeof b === 'number') {
+		return a - b;
+	}
+
+	return collator.compare(String(a), String(b));
+}
+
+/**
+ * parseNumber
+ *
+ * Convert a string to a number, ignoring whitespace, thousands separators and any surrounding text.
+ * Values in parentheses are treated as negative numbers.
+ *
+ * @param {string} value The string to convert
+ * @returns {number}
+ */
+function parseNumber(value: string): number {
+	// Remove everything that is not part of the number.
+	const number = parseFloat(value.replace(/[^0-9.eE-]/g, ''));
+
+	// Accounting notation uses parentheses for negative values.
+	return /^\s*\(.*\)\s*$/.test(value) ? -Math.abs(number) : number;
+}
+
+/**
+ * parseDate
+ *
+ * Convert an ISO date or datetime string to a timestamp.
+ *
+ * @param {string} value The string to convert
+ * @returns {number}
+ */
+function parseDate(value: string): number {
+	return value.length ? Date.parse(value) : NaN;
+}
+
+/**
+ * convertStringToDate
+ *
+ * Convert string to Date object with the proper format.
+ *
+ * @param {string} date The string containing the date
+ * @param {string} format The date's format (DMY, MDY, YMD, YDM)
+ * @returns {Date}
+ *
+ * @example convertStringToDate('01/01/2020', 'MDY')
+ */
+function convertStringToDate(date: string, format: string): Date {
+	// Split the string at the delimiter.
+	const splitDate = date.trim().split(/[./-]/);
+
+	switch (format) {
+		case 'DMY':
+			// Create Date object with day/month/year format.
+			return new Date(+splitDate[2], +splitDate[1] - 1, +splitDate[0]);
+		case 'MDY':
+			// Create Date object with month/day/year format.
+			return new Date(+splitDate[2], +splitDate[0] - 1, +splitDate[1]);
+		case 'YMD':
+			// Create Date object with year/month/day format.
+			return new Date(+splitDate[0], +splitDate[1] - 1, +splitDate[2]);
+		case 'YDM':
+			// Create Date object with year/day/month format.
+			return new Date(+splitDate[0], +splitDate[2] - 1, +splitDate[1]);
+	}
+
+	// Unknown formats are left to the Date object.
+	return new Date(date);
+}
+
+// The registered column types, stored with lowercase names.
+const columnTypes: Record<string, MDFTableColumnType> = {
+	text: {
+		compare: (a: string, b: string) => collator.compare(a, b),
+	},
+	number: {
+		parse: parseNumber,
+	},
+	currency: {
+		parse: parseNumber,
+	},
+	percentage: {
+		parse: parseNumber,
+	},
+	boolean: {
+		parse: (value: string) => {
+			// Check for common truthy and falsy strings.
+			if (/^(true|yes|on|1|✓|✔)$/i.test(value)) return 1;
+			if (/^(false|no|off|0|✗|✘)$/i.test(value)) return 0;
+
+			return NaN;
+		},
+	},
+	date: {
+		// Dates without a sort value can specify their format, otherwise they are expected to be ISO dates.
+		extract: (cell: HTMLTableCellElement) => {
+			if (!cell.hasAttribute(attr.sortValue) && cell.hasAttribute(attr.format)) {
+				const date = convertStringToDate(cell.textContent, cell.getAttribute(attr.format));
+
+				return isNaN(date.getTime()) ? '' : date.toISOString();
+			}
+
+			return getSortValue(cell);
+		},
+		parse: parseDate,
+	},
+	datetime: {
+		parse: parseDate,
+	},
+	filesize: {
+		parse: (value: string) => {
+			// Split the value into its number and unit, e.g. `1.5 MB`.
+			const match = /^([\d.,]+)\s*([a-z]*)$/i.exec(value.trim());
+
+			if (!match) return NaN;
+
+			// Values without a unit are treated as bytes.
+			const unit = match[2].length ? match[2].toLowerCase() : 'b';
+
+			return fileSizeUnits[unit] ? parseFloat(match[1].replace(/,/g, '')) * fileSizeUnits[unit] : NaN;
+		},
+	},
+	duration: {
+		parse: (value: string) => {
+			const duration = value.trim();
+
+			// Clock notation, e.g. `1:02:03` or `02:03`.
+			if (/^\d+(:\d+){1,2}(\.\d+)?$/.test(duration)) {
+				return duration.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+			}
+
+			// Plain numbers are treated as seconds.
+			if (/^-?\d+(\.\d+)?$/.test(duration)) {
+				return parseFloat(duration);
+			}
+
+			// Unit notation, e.g. `1h 30m` or ISO 8601 durations like `PT1H30M`.
+			const parts = duration.replace(/^P/i, '').replace(/T/i, '').match(/(\d+(\.\d+)?)\s*(ms|w|d|h|m|s)/gi);
+
+			if (!parts) return NaN;
+
+			return parts.reduce((total, part) => {
+				const [, number, , unit] = /(\d+(?:\.\d+)?)(\s*)(ms|w|d|h|m|s)/i.exec(part);
+
+				return total + parseFloat(number) * durationUnits[unit.toLowerCase()];
+			}, 0);
+		},
+	},
+};
+
+/**
+ * registerColumnType
+ *
+ * Register a new column type or replace an existing one.
+ * Tables use the type when a header has a matching `data-column-type` attribute.
+ *
+ * @export
+ * @param {string} name Name of the column type
+ * @param {MDFTableColumnType} type The column type
+ * @version 1.1.0
+ */
+export function registerColumnType(name: string, type: MDFTableColumnType): void {
+	columnTypes[name.toLowerCase()] = type;
+}
+
+/**
+ * getColumnType
+ *
+ * Returns the column type registered with the given name.
+ * Unknown names return the `text` type.
+ *
+ * @export
+ * @param {string} name Name of the column type
+ * @returns {MDFTableColumnType}
+ * @version 1.1.0
+ */
+export function getColumnType(name: string): MDFTableColumnType {
+	const type = name ? columnTypes[name.toLowerCase()] : null;
+
+	return type ? type : columnTypes.text;
+}
@@ -0,0 +1,855 @@
+import { MDFSelect } from '@miraidesigns/select';
+import { MDFTextfield } from '@miraidesigns/textfield';
+import { attr, classes, events, selectors } from './constants';
+import { MDFTable } from './mdf-table';
+import { MDFTableColumn, MDFTableEdit, MDFTableEditedEvent, MDFTableEditorOption } from './types';
+
+/**
+ * Editing
+ *
+ * Edit the cells of a table using `MDFTextfield` and `MDFSelect` elements and undo or redo the edits.
+ *
+ * @version 1.1.0
+ */
+
+// We use this counter to create unique ids for the editor elements.
+let editorCount = 0;
+
+/**
+ * createTextfieldEditor
+ *
+ * Create a text field element holding the given value.
+ * The helper element is used to display validation errors.
+ *
+ * @param {string} type The input type, e.g. `text` or `number`
+ * @param {string} value The current value
+ * @param {string} label Label for assistive technologies
+ * @returns {HTMLElement}
+ */
+function createTextfieldEditor(type: string, value: string, label: string): HTMLElement {
+	const container = document.createElement('div');
+	container.addClass('mdf-textfield', 'mdf-textfield--has-helper', classes.editor);
+
+	// Create the input element.
+	const input = document.createElement('input');
+	input.addClass('mdf-textfield__input');
+	input.type = type;
+	input.value = value;
+	input.setAttribute('aria-label', label);
+	container.appendChild(input);
+
+	// Create the helper element.
+	const helperLine = document.createElement('div');
+	helperLine.addClass('mdf-textfield__helper-line');
+	container.appendChild(helperLine);
+
+	const helper = document.createElement('span');
+	helper.addClass('mdf-textfield__helper');
+	helperLine.appendChild(helper);
+
+	return container;
+}
+
+/**
+ * createSelectEditor
+ *
+ * Create a select element with the given options, the option matching the value will be selected.
+ *
+ * @param {MDFTableEditorOption[]} options The available options
+ * @param {string} value The current value
+ * @param {string} label Label for assistive technologies
+ * @returns {HTMLElement}
+ */
+function createSelectEditor(options: MDFTableEditorOption[], value: string, label: string): HTMLElement {
+	const id = `mdf-table-editor-${++editorCount}`;
+
+	const container = document.createElement('div');
+	container.addClass('mdf-select', classes.editor);
+
+	// Create the button that opens the select menu.
+	const button = document.createElement('button');
+	button.addClass('mdf-select__button');
+	button.type = 'button';
+	button.setAttribute('aria-haspopup', 'listbox');
+	button.setAttribute('aria-labelledby', `${id}-label ${id}-text`);
+	container.appendChild(button);
+
+	// The label is only read by assistive technologies.
+	const buttonLabel = document.createElement('span');
+	buttonLabel.id = `${id}-label`;
+	buttonLabel.addClass('mdf-select__label', classes.hidden);
+	buttonLabel.textContent = label;
+	button.appendChild(buttonLabel);
+
+	const buttonText = document.createElement('span');
+	buttonText.id = `${id}-text`;
+	buttonText.addClass('mdf-select__text');
+	button.appendChild(buttonText);
+
+	// Create the menu holding the options.
+	const menu = document.createElement('div');
+	menu.addClass('mdf-select__menu', 'mdf-menu');
+	container.appendChild(menu);
+
+	const list = document.createElement('ul');
+	list.addClass('mdf-list');
+	list.setAttribute('role', 'listbox');
+	list.setAttribute('aria-labelledby', `${id}-label`);
+	list.tabIndex = -1;
+	menu.appendChild(list);
+
+	options.forEach((option: MDFTableEditorOption, index: number) => {
+		const item = document.createElement('li');
+		item.id = `${id}-option-${index}`;
+		item.addClass('mdf-list__item');
+		item.setAttribute('role', 'option');
+		item.setAttribute('data-value', option.value);
+		item.textContent = option.text;
+
+		// Select the option matching the current value.
+		if (option.value === value) {
+			item.addClass('mdf-list__item--selected');
+		}
+
+		list.appendChild(item);
+	});
+
+	// The hidden input holds the selected value.
+	const input = document.createElement('input');
+	input.addClass('mdf-select__input');
+	input.type = 'hidden';
+	menu.appendChild(input);
+
+	return container;
+}
+
+/**
+ * The parts of the table the editor needs besides its public methods.
+ */
+export interface MDFTableEditorHost {
+	getCell: (row: HTMLTableRowElement, column: number) => HTMLTableCellElement;
+	getColumn: (column: number) => MDFTableColumn;
+	getColumnIndex: (cell: HTMLTableCellElement) => number;
+	getHeader: (column: number) => HTMLTableCellElement;
+	refresh: () => void;
+}
+
+/**
+ * MDFTableEditor
+ *
+ * Edit the cells of editable table columns and keep track of the edits to undo and redo them.
+ *
+ * @export
+ * @class MDFTableEditor
+ * @version 1.1.0
+ */
+export class MDFTableEditor {
+	private editing: {
+		row: HTMLTableRowElement;
+		column: number;
+		cell: HTMLTableCellElement;
+		value: unknown;
+		text: string;
+		content: DocumentFragment;
+		textfield: MDFTextfield;
+		select: MDFSelect;
+	};
+	private readonly host: MDFTableEditorHost;
+	private redoStack: MDFTableEdit[];
+	private readonly table: MDFTable;
+	private undoStack: MDFTableEdit[];
+
+	/**
+	 * Creates an instance of MDFTableEditor.
+	 *
+	 * @param {MDFTable} table The table to edit
+	 * @param {MDFTableEditorHost} host The parts of the table we need besides its public methods
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	constructor(table: MDFTable, host: MDFTableEditorHost) {
+		this.table = table;
+		this.host = host;
+
+		// We keep track of the cell edits made in this session to undo and redo them.
+		this.editing = null;
+		this.undoStack = [];
+		this.redoStack = [];
+	}
+
+	/**
+	 * editCell
+	 *
+	 * Open an editor for the given cell. Editable columns use either an `MDFTextfield` or an `MDFSelect` element.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @param {number} column Table column index
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	public editCell = (row: HTMLTableRowElement, column: number): void => {
+		// Only one cell can be edited at a time, the current edit needs to be valid before we continue.
+		if (this.editing) {
+			this.commitEdit();
+		}
+
+		// Get the cell we want to edit.
+		const cell = row ? this.host.getCell(row, column) : null;
+
+		// Don't continue if the cell can't be edited.
+		if (this.editing || !cell || !this.isEditableCell(cell, column)) return;
+
+		// Get the column definition and header of the cell.
+		const definition = this.host.getColumn(column);
+		const header = this.host.getHeader(column);
+
+		// Either use the editor of the column definition or the one set in the markup.
+		let editor = header && header.hasAttribute(attr.editor) ? header.getAttribute(attr.editor) : 'text';
+
+		if (definition && definition.editor) {
+			editor = definition.editor;
+		}
+
+		// Get the current value of the cell and its string representation for the editor.
+		const value = this.getEditValue(row, column);
+		const text = this.toEditText(value, editor);
+		const label = this.table.getColumnLabel(column);
+
+		// Move the cell content aside, we put it back once editing ends.
+		const content = document.createDocumentFragment();
+
+		while (cell.firstChild) {
+			content.appendChild(cell.firstChild);
+		}
+
+		cell.addClass(classes.cellEditing);
+
+		// Keep track of the edited cell.
+		this.editing = { row, column, cell, value, text, content, textfield: null, select: null };
+
+		if (editor === 'select' && definition && definition.editorOptions) {
+			// Create the select element.
+			const elem = createSelectEditor(definition.editorOptions, text, label);
+			cell.appendChild(elem);
+
+			this.editing.select = new MDFSelect(elem);
+
+			// Commit the edit as soon as an option gets picked, closing the menu without picking one cancels it.
+			elem.addEventListener(events.selectChanged, this.commitEdit);
+			elem.addEventListener(events.selectClosed, this.selectClosed);
+
+			// Open the menu once the current event is done, otherwise it might pick up the same event.
+			const button: HTMLButtonElement = elem.querySelector(selectors.selectButton);
+			setTimeout(() => button.click());
+		} else {
+			// Create the text field element.
+			const elem = createTextfieldEditor(editor, text, label);
+			cell.appendChild(elem);
+
+			this.editing.textfield = new MDFTextfield(elem);
+
+			// Commit the edit with `Enter` or once the input loses focus, cancel it with `Escape`.
+			this.editing.textfield.input.addEventListener('keydown', this.editorKeydown);
+			this.editing.textfield.input.addEventListener('blur', this.commitEdit);
+
+			// Set focus to the input and select its text.
+			this.editing.textfield.input.focus();
+			this.editing.textfield.input.select();
+		}
+	};
+
+	/**
+	 * undo
+	 *
+	 * Undo the last cell edit.
+	 *
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	public undo = (): void => {
+		// Stop editing before we change any values.
+		if (this.editing) {
+			this.cancelEdit();
+		}
+
+		const edit = this.undoStack.pop();
+
+		if (!edit) return;
+
+		// The table row might have been removed since, move on to the next edit.
+		if (!this.table.rows.includes(edit.row)) {
+			this.undo();
+			return;
+		}
+
+		// Restore the old value and allow to redo the edit.
+		this.setCellValue(edit.row, edit.column, edit.oldValue);
+		this.redoStack.push(edit);
+
+		this.dispatchEdited(edit.row, edit.column, edit.newValue, edit.oldValue);
+	};
+
+	/**
+	 * redo
+	 *
+	 * Redo the last undone cell edit.
+	 *
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	public redo = (): void => {
+		// Stop editing before we change any values.
+		if (this.editing) {
+			this.cancelEdit();
+		}
+
+		const edit = this.redoStack.pop();
+
+		if (!edit) return;
+
+		// The table row might have been removed since, move on to the next edit.
+		if (!this.table.rows.includes(edit.row)) {
+			this.redo();
+			return;
+		}
+
+		// Apply the new value again and allow to undo the edit.
+		this.setCellValue(edit.row, edit.column, edit.newValue);
+		this.undoStack.push(edit);
+
+		this.dispatchEdited(edit.row, edit.column, edit.oldValue, edit.newValue);
+	};
+
+	/**
+	 * canUndo
+	 *
+	 * Returns wether or not there are cell edits to undo.
+	 *
+	 * @returns {boolean}
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	public canUndo = (): boolean => {
+		return this.undoStack.length > 0;
+	};
+
+	/**
+	 * canRedo
+	 *
+	 * Returns wether or not there are cell edits to redo.
+	 *
+	 * @returns {boolean}
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	public canRedo = (): boolean => {
+		return this.redoStack.length > 0;
+	};
+
+	/**
+	 * isEditing
+	 *
+	 * Returns wether or not a cell is being edited.
+	 *
+	 * @returns {boolean}
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	public isEditing = (): boolean => {
+		return this.editing !== null;
+	};
+
+	/**
+	 * reset
+	 *
+	 * Stop editing and forget the edits made so far, e.g. once the edited table rows are removed.
+	 *
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	public reset = (): void => {
+		if (this.editing) {
+			this.cancelEdit();
+		}
+
+		this.undoStack.length = 0;
+		this.redoStack.length = 0;
+	};
+
+	/**
+	 * markEditableCells
+	 *
+	 * Make the editable cells of the given table row elements focusable.
+	 *
+	 * @param {HTMLTableRowElement[]} rows The table row elements
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	public markEditableCells = (rows: HTMLTableRowElement[]): void => {
+		for (const row of rows) {
+			for (const cell of Array.from(row.cells)) {
+				if (this.isEditableCell(cell, this.host.getColumnIndex(cell))) {
+					cell.addClass(classes.cellEditable);
+
+					// Interactive grids only allow to focus one cell at a time using the Tab key.
+					if (!this.table.options.interactive) {
+						cell.tabIndex = 0;
+					}
+				}
+			}
+		}
+	};
+
+	/**
+	 * addEvents
+	 *
+	 * If any column is editable, allow to edit its cells and undo or redo the edits.
+	 *
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	public addEvents = (): void => {
+		const { container, head, options } = this.table;
+
+		if (
+			(options.columns && options.columns.some((column) => column.editable)) ||
+			head.querySelector(`[${attr.editable}]`)
+		) {
+			container.addEventListener('dblclick', this.editOnDblClick);
+			container.addEventListener('keydown', this.editOnKeydown);
+		}
+	};
+
+	/**
+	 * isEditable
+	 *
+	 * Returns wether or not the cells of the given table column can be edited.
+	 *
+	 * @param {number} column Table column index
+	 * @returns {boolean}
+	 * @private
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	private isEditable = (column: number): boolean => {
+		const definition = this.host.getColumn(column);
+
+		// Columns we rendered from have to be marked as editable.
+		if (definition) return definition.editable === true;
+
+		// Otherwise check the table header element for the `data-editable` attribute.
+		const header = this.host.getHeader(column);
+
+		return header ? header.hasAttribute(attr.editable) : false;
+	};
+
+	/**
+	 * isEditableCell
+	 *
+	 * Returns wether the given cell can be edited.
+	 * Markup cells can only be edited if their text isn't split across elements, e.g. an icon next to a link.
+	 *
+	 * @param {HTMLTableCellElement} cell The table cell element
+	 * @param {number} column Table column index
+	 * @returns {boolean}
+	 * @private
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	private isEditableCell = (cell: HTMLTableCellElement, column: number): boolean => {
+		if (!this.isEditable(column)) return false;
+
+		// Tables rendered from data re-render the cell instead.
+		return this.host.getColumn(column) ? true : this.getTextNodes(cell).length <= 1;
+	};
+
+	/**
+	 * getEditValue
+	 *
+	 * Returns the value of a cell we are about to edit.
+	 * Tables rendered from data use the record value, otherwise we use the cell's text.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @param {number} column Table column index
+	 * @returns {unknown}
+	 * @private
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	private getEditValue = (row: HTMLTableRowElement, column: number): unknown => {
+		const definition = this.host.getColumn(column);
+		const record = this.table.getRowData(row);
+
+		if (definition && record) {
+			const value: unknown = record[definition.key];
+
+			return value;
+		}
+
+		return this.host.getCell(row, column).textContent.trim();
+	};
+
+	/**
+	 * toEditText
+	 *
+	 * Convert a cell value to the string displayed by the editor.
+	 *
+	 * @param {unknown} value The cell value
+	 * @param {string} editor The editor type
+	 * @returns {string}
+	 * @private
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	private toEditText = (value: unknown, editor: string): string => {
+		if (value === undefined || value === null) return '';
+
+		// Date inputs expect the `yyyy-mm-dd` format.
+		if (value instanceof Date) {
+			return editor === 'date' ? value.toISOString().substring(0, 10) : value.toISOString();
+		}
+
+		return String(value);
+	};
+
+	/**
+	 * fromEditText
+	 *
+	 * Convert the string of the editor back to the type of the previous cell value.
+	 *
+	 * @param {string} text The editor value
+	 * @param {unknown} previous The previous cell value
+	 * @param {string} editor The editor type
+	 * @returns {unknown}
+	 * @private
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	private fromEditText = (text: string, previous: unknown, editor: string): unknown => {
+		if (previous instanceof Date) {
+			return text.length ? new Date(text) : null;
+		}
+
+		if (editor === 'number' || typeof previous === 'number') {
+			return text.length ? +text : null;
+		}
+
+		return text;
+	};
+
+	/**
+	 * setCellValue
+	 *
+	 * Change the value of a cell.
+	 * Tables rendered from data update the record, otherwise we replace the cell's text and keep its elements.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @param {number} column Table column index
+	 * @param {unknown} value The new value
+	 * @private
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	private setCellValue = (row: HTMLTableRowElement, column: number, value: unknown) => {
+		const definition = this.host.getColumn(column);
+		const record = this.table.getRowData(row);
+
+		if (definition && record) {
+			this.table.updateRow(this.table.getData().indexOf(record), { [definition.key]: value });
+			return;
+		}
+
+		const cell = this.host.getCell(row, column);
+
+		// The sort value would no longer match the text.
+		this.setCellText(cell, value === undefined || value === null ? '' : String(value));
+		cell.removeAttribute(attr.sortValue);
+
+		// Make sure sorting, filtering and pagination take the new value into account.
+		this.host.refresh();
+	};
+
+	/**
+	 * setCellText
+	 *
+	 * Replace the text of a cell without removing its elements, e.g. links or the row controls.
+	 *
+	 * @param {HTMLTableCellElement} cell The cell
+	 * @param {string} text The new text
+	 * @private
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	private setCellText = (cell: HTMLTableCellElement, text: string) => {
+		// Editable markup cells have at most one text node.
+		const node = this.getTextNodes(cell)[0];
+
+		// Cells without text receive it at the end.
+		if (node) {
+			node.data = text;
+		} else {
+			cell.appendChild(document.createTextNode(text));
+		}
+	};
+
+	/**
+	 * getTextNodes
+	 *
+	 * Returns the text nodes of a cell, ignoring the whitespace between its elements.
+	 *
+	 * @param {HTMLTableCellElement} cell The table cell element
+	 * @returns {Text[]}
+	 * @private
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	private getTextNodes = (cell: HTMLTableCellElement): Text[] => {
+		const walker = document.createTreeWalker(cell, NodeFilter.SHOW_TEXT);
+		const nodes: Text[] = [];
+
+		while (walker.nextNode()) {
+			if (walker.currentNode.textContent.trim()) {
+				nodes.push(walker.currentNode as Text);
+			}
+		}
+
+		return nodes;
+	};
+
+	/**
+	 * commitEdit
+	 *
+	 * Validate the editor value and apply it to the edited cell.
+	 * Invalid values display an error and keep the editor open.
+	 *
+	 * @private
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	private commitEdit = () => {
+		if (!this.editing) return;
+
+		const { row, column, value, text, textfield, select } = this.editing;
+		const definition = this.host.getColumn(column);
+		const newText = textfield ? textfield.value : select.value;
+
+		// Let the browser validate the input first, e.g. the `min` and `max` of number inputs.
+		let error = textfield ? textfield.input.validationMessage : '';
+
+		// Then run the column validator.
+		if (!error && definition && definition.validator) {
+			error = definition.validator(newText, this.table.getRowData(row));
+		}
+
+		if (error) {
+			if (textfield) {
+				// Display the error using the text field's error state.
+				textfield.setError(error);
+			} else {
+				// Selects have no error state, we keep the old value.
+				this.cancelEdit();
+			}
+
+			return;
+		}
+
+		// Put the cell content back.
+		const editor = textfield ? textfield.type : 'select';
+		this.closeEditor();
+
+		// Don't continue if the value didn't change.
+		if (newText === text) return;
+
+		const newValue = this.fromEditText(newText, value, editor);
+
+		// Apply the new value and allow to undo the edit.
+		this.setCellValue(row, column, newValue);
+		this.undoStack.push({ row, column, oldValue: value, newValue });
+		this.redoStack.length = 0;
+
+		this.dispatchEdited(row, column, value, newValue);
+	};
+
+	/**
+	 * cancelEdit
+	 *
+	 * Close the editor without changing the cell value.
+	 *
+	 * @private
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	private cancelEdit = () => {
+		if (!this.editing) return;
+
+		const { cell } = this.editing;
+		this.closeEditor();
+
+		// Move the focus back to the cell.
+		cell.focus();
+	};
+
+	/**
+	 * closeEditor
+	 *
+	 * Remove the editor and put the original cell content back.
+	 *
+	 * @private
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	private closeEditor = () => {
+		const { cell, content } = this.editing;
+
+		// Stop editing first, removing the editor will cause it to lose focus.
+		this.editing = null;
+
+		cell.textContent = '';
+		cell.appendChild(content);
+		cell.removeClass(classes.cellEditing);
+	};
+
+	/**
+	 * selectClosed
+	 *
+	 * Cancel the edit if the select menu closes without an option being picked.
+	 *
+	 * @private
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	private selectClosed = () => {
+		const editing = this.editing;
+
+		// The select element lets us know about the picked option after it closed the menu.
+		setTimeout(() => {
+			if (editing && this.editing === editing) {
+				this.cancelEdit();
+			}
+		});
+	};
+
+	/**
+	 * editorKeydown
+	 *
+	 * Commit the edit with `Enter`, cancel it with `Escape`.
+	 *
+	 * @private
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	private editorKeydown = (evt: KeyboardEvent) => {
+		if (!this.editing) return;
+
+		const { cell } = this.editing;
+
+		switch (evt.key) {
+			case 'Enter':
+				evt.preventDefault();
+
+				this.commitEdit();
+
+				// Move the focus back to the cell if the edit was valid.
+				if (!this.editing) {
+					cell.focus();
+				}
+				break;
+			case 'Escape':
+				evt.preventDefault();
+
+				this.cancelEdit();
+				break;
+		}
+	};
+
+	/**
+	 * editOnDblClick
+	 *
+	 * Edit a cell by double clicking it.
+	 *
+	 * @private
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	private editOnDblClick = (evt: MouseEvent) => {
+		const target = evt.target as HTMLElement;
+
+		// Ignore clicks inside of an editor.
+		if (target.closest(selectors.editor)) return;
+
+		// Get the clicked editable cell.
+		const cell: HTMLTableCellElement = target.closest(selectors.cellEditable);
+
+		if (cell && this.table.body.contains(cell)) {
+			this.editCell(cell.parentElement as HTMLTableRowElement, this.host.getColumnIndex(cell));
+		}
+	};
+
+	/**
+	 * editOnKeydown
+	 *
+	 * Edit the focused cell with `Enter` or `F2`, undo and redo edits with `Ctrl + Z` and `Ctrl + Y`.
+	 *
+	 * @private
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	private editOnKeydown = (evt: KeyboardEvent) => {
+		const target = evt.target as HTMLElement;
+
+		// Inputs, including our editors, handle their own keys.
+		if (this.editing || target.closest('input, textarea, select')) return;
+
+		if (evt.ctrlKey || evt.metaKey) {
+			const key = evt.key.toLowerCase();
+
+			if (key === 'z' || key === 'y') {
+				evt.preventDefault();
+
+				// `Ctrl + Shift + Z` and `Ctrl + Y` both redo the last undone edit.
+				if (key === 'y' || evt.shiftKey) {
+					this.redo();
+				} else {
+					this.undo();
+				}
+			}
+
+			return;
+		}
+
+		if ((evt.key === 'Enter' || evt.key === 'F2') && target.matches(selectors.cellEditable)) {
+			evt.preventDefault();
+
+			const cell = target as HTMLTableCellElement;
+			this.editCell(cell.parentElement as HTMLTableRowElement, this.host.getColumnIndex(cell));
+		}
+	};
+
+	/**
+	 * dispatchEdited
+	 *
+	 * Dispatch custom event with the details of a cell edit.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @param {number} column Table column index
+	 * @param {unknown} oldValue The previous value
+	 * @param {unknown} newValue The new value
+	 * @private
+	 * @memberof MDFTableEditor
+	 * @since 1.1.0
+	 */
+	private dispatchEdited = (row: HTMLTableRowElement, column: number, oldValue: unknown, newValue: unknown) => {
+		this.table.body.dispatchEvent(
+			new CustomEvent<MDFTableEditedEvent>(events.edited, {
+				bubbles: true,
+				detail: {
+					row,
+					column,
+					record: this.table.getRowData(row),
+					oldValue,
+					newValue,
+				},
+			})
+		);
+	};
+}
@@ -0,0 +1,91 @@
+/**
+ * Export
+ *
+ * Helpers the table uses to serialize its data and hand it over to the user.
+ *
+ * @version 1.1.0
+ */
+
+// MIME types of the supported export formats.
+const mimeTypes: Record<string, string> = {
+	csv: 'text/csv;charset=utf-8',
+	tsv: 'text/tab-separated-values;charset=utf-8',
+	json: 'application/json;charset=utf-8',
+};
+
+/**
+ * quoteField
+ *
+ * Quote a field if it contains the delimiter, quotes or line breaks. Quotes inside the field are escaped by doubling them.
+ *
+ * @export
+ * @param {unknown} value The field value
+ * @param {string} delimiter The field delimiter
+ * @returns {string}
+ * @version 1.1.0
+ */
+export function quoteField(value: unknown, delimiter: string): string {
+	const field = value === null || value === undefined ? '' : String(value);
+
+	return field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * serializeDelimited
+ *
+ * Convert rows of fields to delimited text, e.g. CSV or TSV.
+ *
+ * @export
+ * @param {unknown[][]} rows The rows to convert
+ * @param {string} delimiter The field delimiter
+ * @returns {string}
+ * @version 1.1.0
+ *
+ * @example serializeDelimited([['Name', 'Age'], ['Amy', 10]], ',')
+ */
+export function serializeDelimited(rows: unknown[][], delimiter: string): string {
+	return rows.map((row) => row.map((field) => quoteField(field, delimiter)).join(delimiter)).join('\r\n');
+}
+
+/**
+ * getMimeType
+ *
+ * Returns the MIME type of the given export format.
+ *
+ * @export
+ * @param {string} format The export format (csv, tsv, json)
+ * @returns {string}
+ * @version 1.1.0
+ */
+export function getMimeType(format: string): string {
+	const type = format ? mimeTypes[format.toLowerCase()] : null;
+
+	return type ? type : mimeTypes.csv;
+}
+
+/**
+ * downloadBlob
+ *
+ * Let the browser download the given Blob as a file.
+ *
+ * @export
+ * @param {Blob} blob The Blob to download
+ * @param {string} filename Name of the downloaded file
+ * @version 1.1.0
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+	const url = URL.createObjectURL(blob);
+
+	// Use a temporary link element to start the download.
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = filename;
+	link.style.display = 'none';
+
+	document.body.appendChild(link);
+	link.click();
+	document.body.removeChild(link);
+
+	// Release the Blob once the download has started.
+	setTimeout(() => URL.revokeObjectURL(url));
+}
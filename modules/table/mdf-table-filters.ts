@@ -0,0 +1,232 @@
+import { getColumnType } from './mdf-table-columns';
+import { MDFTableFilter, MDFTableFilterOperator } from './types';
+
+/**
+ * Filter operators
+ *
+ * Registry of operators the table uses to check wether or not a cell matches a filter.
+ *
+ * @version 1.1.0
+ */
+
+/**
+ * normalize
+ *
+ * Convert a value to a string we can compare, ignoring case unless told otherwise.
+ *
+ * @param {unknown} value The value to convert
+ * @param {boolean} caseSensitive Wether or not to keep the case
+ * @returns {string}
+ */
+function normalize(value: unknown, caseSensitive: boolean): string {
+	const string = value === null || value === undefined ? '' : String(value).trim();
+
+	return caseSensitive ? string : string.toUpperCase();
+}
+
+/**
+ * toNumber
+ *
+ * Convert a cell to a number. Cells of numeric column types already hold one.
+ *
+ * @param {string} text The raw value of the cell
+ * @param {unknown} value The parsed value of the cell
+ * @returns {number}
+ */
+function toNumber(text: string, value: unknown): number {
+	return typeof value === 'number' ? value : (getColumnType('number').parse(text) as number);
+}
+
+/**
+ * toTimestamp
+ *
+ * Convert a date, timestamp or date string to a timestamp.
+ *
+ * @param {unknown} value The value to convert
+ * @returns {number}
+ */
+function toTimestamp(value: unknown): number {
+	if (value instanceof Date) return value.getTime();
+	if (typeof value === 'number') return value;
+
+	return typeof value === 'string' && value.length ? Date.parse(value) : NaN;
+}
+
+/**
+ * toCellTimestamp
+ *
+ * Convert a cell to a timestamp. Cells of date column types already hold one, parsed using their date format.
+ *
+ * @param {string} text The raw value of the cell
+ * @param {unknown} value The parsed value of the cell
+ * @returns {number}
+ */
+function toCellTimestamp(text: string, value: unknown): number {
+	const timestamp = toTimestamp(value);
+
+	return isNaN(timestamp) ? toTimestamp(text) : timestamp;
+}
+
+/**
+ * toBoundary
+ *
+ * Convert the boundary of a numeric range to a number. Empty boundaries return `NaN`.
+ *
+ * @param {unknown} value The value to convert
+ * @returns {number}
+ */
+function toBoundary(value: unknown): number {
+	return value === null || value === undefined || value === '' ? NaN : Number(value);
+}
+
+/**
+ * inRange
+ *
+ * Check if a number lies within the given range. Missing boundaries leave the range open on that end.
+ *
+ * @param {number} number The number to check
+ * @param {number} min The lower boundary
+ * @param {number} max The upper boundary
+ * @returns {boolean}
+ */
+function inRange(number: number, min: number, max: number): boolean {
+	if (isNaN(number)) return false;
+
+	return (isNaN(min) || number >= min) && (isNaN(max) || number <= max);
+}
+
+/**
+ * toRegExp
+ *
+ * Convert the value of a `regex` filter to a regular expression. Invalid patterns throw a `SyntaxError`.
+ *
+ * @param {MDFTableFilter} filter The filter to convert
+ * @returns {RegExp}
+ */
+function toRegExp(filter: MDFTableFilter): RegExp {
+	return new RegExp(String(filter.value), filter.caseSensitive ? '' : 'i');
+}
+
+// The registered filter operators, stored with lowercase names.
+const filterOperators: Record<string, MDFTableFilterOperator> = {
+	contains: (text, value, filter) => {
+		return normalize(text, filter.caseSensitive).includes(normalize(filter.value, filter.caseSensitive));
+	},
+	equals: (text, value, filter) => {
+		// Numbers are compared with the parsed cell value, e.g. `1,000` equals `1000` in a number column.
+		if (typeof filter.value === 'number') {
+			return toNumber(text, value) === filter.value;
+		}
+
+		return normalize(text, filter.caseSensitive) === normalize(filter.value, filter.caseSensitive);
+	},
+	'starts-with': (text, value, filter) => {
+		return normalize(text, filter.caseSensitive).startsWith(normalize(filter.value, filter.caseSensitive));
+	},
+	regex: (text, value, filter) => {
+		// Filters passed through `compileFilter` already hold the expression.
+		const regex = filter.value instanceof RegExp ? filter.value : toRegExp(filter);
+
+		// Global expressions remember where they stopped, we always want to test the whole string.
+		regex.lastIndex = 0;
+
+		return regex.test(text);
+	},
+	range: (text, value, filter) => {
+		// The filter value holds the lower and upper boundary, e.g. `[10, 100]`.
+		const [min, max] = filter.value as [number, number];
+
+		return inRange(toNumber(text, value), toBoundary(min), toBoundary(max));
+	},
+	between: (text, value, filter) => {
+		// The filter value holds the start and end date, e.g. `['2021-01-01', new Date()]`.
+		const [from, to] = filter.value as [Date | string, Date | string];
+
+		return inRange(toCellTimestamp(text, value), toTimestamp(from), toTimestamp(to));
+	},
+	in: (text, value, filter) => {
+		// The filter value holds a list of accepted values.
+		const values = Array.isArray(filter.value) ? (filter.value as unknown[]) : [filter.value];
+		const cellText = normalize(text, filter.caseSensitive);
+
+		return values.some((item) => normalize(item, filter.caseSensitive) === cellText);
+	},
+};
+
+/**
+ * registerFilterOperator
+ *
+ * Register a new filter operator or replace an existing one.
+ *
+ * @export
+ * @param {string} name Name of the filter operator
+ * @param {MDFTableFilterOperator} operator The function that checks a cell against the filter
+ * @version 1.1.0
+ */
+export function registerFilterOperator(name: string, operator: MDFTableFilterOperator): void {
+	filterOperators[name.toLowerCase()] = operator;
+}
+
+/**
+ * getFilterOperator
+ *
+ * Returns the filter operator registered with the given name.
+ * Unknown names return the `contains` operator.
+ *
+ * @export
+ * @param {string} name Name of the filter operator
+ * @returns {MDFTableFilterOperator}
+ * @version 1.1.0
+ */
+export function getFilterOperator(name: string): MDFTableFilterOperator {
+	const operator = name ? filterOperators[name.toLowerCase()] : null;
+
+	return operator ? operator : filterOperators.contains;
+}
+
+/**
+ * hasFilterOperator
+ *
+ * Check if a filter operator is registered with the given name.
+ *
+ * @export
+ * @param {string} name Name of the filter operator
+ * @returns {boolean}
+ * @version 1.1.0
+ */
+export function hasFilterOperator(name: string): boolean {
+	return name ? Object.keys(filterOperators).includes(name.toLowerCase()) : false;
+}
+
+/**
+ * compileFilter
+ *
+ * Prepare a filter before checking cells against it, so its value doesn't have to be converted for every cell.
+ * The value of `regex` filters is compiled to a regular expression. Invalid patterns throw a `SyntaxError`.
+ *
+ * @export
+ * @param {MDFTableFilter} filter The filter to prepare
+ * @returns {MDFTableFilter}
+ * @version 1.1.0
+ */
+export function compileFilter(filter: MDFTableFilter): MDFTableFilter {
+	if (!filter.operator || filter.operator.toLowerCase() !== 'regex' || filter.value instanceof RegExp) return filter;
+
+	return Object.assign({}, filter, { value: toRegExp(filter) });
+}
+
+/**
+ * matchesFilter
+ *
+ * Check a cell against a single filter.
+ *
+ * @export
+ * @param {string} text The raw value of the cell
+ * @param {unknown} value The parsed value of the cell
+ * @param {MDFTableFilter} filter The filter to check
+ * @returns {boolean}
+ * @version 1.1.0
+ */
+export function matchesFilter(text: string, value: unknown, filter: MDFTableFilter): boolean {
+	return getFilterOperator(filter.operator)(text, value, filter);
+}
@@ -0,0 +1,557 @@
+import { isRTL } from '@miraidesigns/utils';
+import { attr, classes, events, selectors } from './constants';
+import { MDFTable } from './mdf-table';
+import { MDFTableGroup, MDFTableGroupToggledEvent } from './types';
+
+/**
+ * Grouping
+ *
+ * Group the rows of a table by one or more columns and expand or collapse the groups.
+ *
+ * @version 1.1.0
+ */
+
+/**
+ * The parts of the table the grouping needs besides its public methods.
+ */
+export interface MDFTableGroupingHost {
+	calculateAggregates: (rows: HTMLTableRowElement[]) => { [column: number]: any };
+	getCell: (row: HTMLTableRowElement, column: number) => HTMLTableCellElement;
+	getCheckboxOffset: () => number;
+	getColumnCount: () => number;
+	getComparator: (column: number) => (a: HTMLTableRowElement, b: HTMLTableRowElement) => number;
+	getFilteredRows: () => HTMLTableRowElement[];
+	groupsToggled: () => void;
+	renderAggregateCells: (row: HTMLTableRowElement, values: { [column: number]: any }, label: Node) => void;
+	setActiveCell: (cell: HTMLTableCellElement, focus: boolean) => void;
+}
+
+/**
+ * MDFTableGrouping
+ *
+ * Render a group row for each group of table rows, holding the toggle of the group and its aggregates.
+ * Groups keep their expanded state while they are created again, e.g. after sorting or filtering.
+ *
+ * @export
+ * @class MDFTableGrouping
+ * @version 1.1.0
+ */
+export class MDFTableGrouping {
+	private collapsed: Set<string>;
+	private columns: number[];
+	private groupRows: Map<string, HTMLTableRowElement>;
+	private groups: MDFTableGroup[];
+	private readonly host: MDFTableGroupingHost;
+	private readonly table: MDFTable;
+
+	/**
+	 * Creates an instance of MDFTableGrouping.
+	 *
+	 * @param {MDFTable} table The table holding the rows
+	 * @param {MDFTableGroupingHost} host The parts of the table we need besides its public methods
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	constructor(table: MDFTable, host: MDFTableGroupingHost) {
+		this.table = table;
+		this.host = host;
+
+		// We keep track of the columns the table rows are grouped by, their group rows and which groups are collapsed.
+		this.columns = [];
+		this.groupRows = new Map();
+		this.collapsed = new Set();
+	}
+
+	/**
+	 * setColumns
+	 *
+	 * Group the table rows by the given columns and create the group rows, an empty array removes the groups.
+	 *
+	 * @param {number[]} columns Table column indexes to group by
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	public setColumns = (columns: number[]): void => {
+		this.columns = this.getValidColumns(columns);
+		this.apply();
+	};
+
+	/**
+	 * getColumns
+	 *
+	 * Returns the table column indexes the table rows are grouped by.
+	 *
+	 * @returns {number[]}
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	public getColumns = (): number[] => {
+		return [...this.columns];
+	};
+
+	/**
+	 * getGroups
+	 *
+	 * Returns the top level groups of the table rows, each holding their subgroups.
+	 *
+	 * @returns {MDFTableGroup[]}
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	public getGroups = (): MDFTableGroup[] => {
+		return this.groups ? this.groups : [];
+	};
+
+	/**
+	 * isGrouped
+	 *
+	 * Check if the table rows are currently grouped.
+	 *
+	 * @returns {boolean}
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	public isGrouped = (): boolean => {
+		return !!this.groups;
+	};
+
+	/**
+	 * getGroupRows
+	 *
+	 * Returns the group rows of every group, including subgroups.
+	 *
+	 * @returns {HTMLTableRowElement[]}
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	public getGroupRows = (): HTMLTableRowElement[] => {
+		return Array.from(this.groupRows.values());
+	};
+
+	/**
+	 * getViewRows
+	 *
+	 * Returns the group rows, each followed by the rows of its group unless the group is collapsed.
+	 *
+	 * @returns {HTMLTableRowElement[]}
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	public getViewRows = (): HTMLTableRowElement[] => {
+		const viewRows: HTMLTableRowElement[] = [];
+
+		const addGroups = (groups: MDFTableGroup[]) => {
+			for (const group of groups) {
+				viewRows.push(this.groupRows.get(group.key));
+
+				// Collapsed groups only display their group row.
+				if (!group.expanded) continue;
+
+				if (group.groups.length) {
+					addGroups(group.groups);
+				} else {
+					viewRows.push(...group.rows);
+				}
+			}
+		};
+
+		addGroups(this.getGroups());
+
+		return viewRows;
+	};
+
+	/**
+	 * toggleGroup
+	 *
+	 * Expand or collapse the group with the given key.
+	 * Group keys are the group values joined by `/`, e.g. `Engineering/Senior`.
+	 *
+	 * @param {string} key The group key
+	 * @param {boolean} [expanded] Wether the group should be expanded, otherwise the group toggles
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	public toggleGroup = (key: string, expanded?: boolean): void => {
+		const group = this.findGroup(key);
+
+		// Don't continue if the group doesn't exist.
+		if (!group) return;
+
+		this.setGroupExpanded(group, expanded === undefined ? !group.expanded : expanded);
+		this.host.groupsToggled();
+
+		// Dispatch custom event with the group key and its new state.
+		this.table.body.dispatchEvent(
+			new CustomEvent<MDFTableGroupToggledEvent>(events.groupToggled, {
+				bubbles: true,
+				detail: {
+					key: group.key,
+					expanded: group.expanded,
+				},
+			})
+		);
+	};
+
+	/**
+	 * expandAllGroups
+	 *
+	 * Expand every group, including subgroups.
+	 *
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	public expandAllGroups = (): void => {
+		this.forEachGroup((group) => this.setGroupExpanded(group, true));
+		this.host.groupsToggled();
+	};
+
+	/**
+	 * collapseAllGroups
+	 *
+	 * Collapse every group, including subgroups.
+	 *
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	public collapseAllGroups = (): void => {
+		this.forEachGroup((group) => this.setGroupExpanded(group, false));
+		this.host.groupsToggled();
+	};
+
+	/**
+	 * getParentGroupRows
+	 *
+	 * Returns the group rows the row at the given index belongs to, starting with the top level group.
+	 *
+	 * @param {HTMLTableRowElement[]} rows The displayed table row elements, including group rows
+	 * @param {number} index Index of the row
+	 * @returns {HTMLTableRowElement[]}
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	public getParentGroupRows = (rows: HTMLTableRowElement[], index: number): HTMLTableRowElement[] => {
+		const parents: HTMLTableRowElement[] = [];
+
+		// Table rows belong to the groups of every level, group rows only to the levels above their own.
+		let level = rows[index].hasClass(classes.rowGroup)
+			? +rows[index].getAttribute(attr.level)
+			: this.columns.length + 1;
+
+		// Walk back until we found the group row of each level above.
+		for (let i = index - 1; i >= 0 && level > 1; i--) {
+			if (rows[i].hasClass(classes.rowGroup) && +rows[i].getAttribute(attr.level) < level) {
+				level = +rows[i].getAttribute(attr.level);
+				parents.unshift(rows[i]);
+			}
+		}
+
+		return parents;
+	};
+
+	/**
+	 * getValidColumns
+	 *
+	 * Returns the given table column indexes without duplicates, the checkbox column and columns that don't exist.
+	 *
+	 * @param {number[]} columns Table column indexes
+	 * @returns {number[]}
+	 * @private
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	private getValidColumns = (columns: number[]): number[] => {
+		const offset = this.host.getCheckboxOffset();
+
+		return (columns ? columns : []).filter(
+			(column, index, list) => column >= offset && column < this.host.getColumnCount() && list.indexOf(column) === index
+		);
+	};
+
+	/**
+	 * apply
+	 *
+	 * Group the filtered table rows by the group columns and render a group row for each group.
+	 * Group rows are reused for groups that already existed, so they keep their focus.
+	 *
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	public apply = (): void => {
+		// Keep the group rows we already have, we remove the ones that are no longer needed afterwards.
+		const previousRows = this.groupRows;
+		this.groupRows = new Map();
+
+		if (this.columns.length) {
+			this.groups = this.createGroups(this.host.getFilteredRows(), [], previousRows);
+		} else if (this.groups) {
+			this.groups = null;
+
+			// Without groups, the table rows follow their sorted order again.
+			if (!this.table.options.virtualize) {
+				for (const row of this.table.rows) {
+					this.table.body.appendChild(row);
+				}
+			}
+		}
+
+		previousRows.forEach((row, key) => {
+			if (!this.groupRows.has(key)) {
+				row.remove();
+			}
+		});
+	};
+
+	/**
+	 * createGroups
+	 *
+	 * Group the given table rows by the group column of the next level and create their subgroups.
+	 * Groups are ordered by their column, using its sorting direction if the table is sorted by it.
+	 *
+	 * @param {HTMLTableRowElement[]} rows The table row elements to group
+	 * @param {string[]} path The values of the parent groups
+	 * @param {Map<string, HTMLTableRowElement>} previousRows The group rows that can be reused
+	 * @returns {MDFTableGroup[]}
+	 * @private
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	private createGroups = (
+		rows: HTMLTableRowElement[],
+		path: string[],
+		previousRows: Map<string, HTMLTableRowElement>
+	): MDFTableGroup[] => {
+		const column = this.columns[path.length];
+		const groups = new Map<string, MDFTableGroup>();
+
+		// Rows with the same cell text belong to the same group, they keep their current order.
+		for (const row of rows) {
+			const cell = this.host.getCell(row, column);
+			const text = cell ? cell.textContent.trim() : '';
+
+			if (!groups.has(text)) {
+				// Slashes and backslashes inside the values are escaped, so values containing them can't share a key.
+				const key = [...path, text].map((value) => value.replace(/[\\/]/g, '\\$&')).join('/');
+
+				groups.set(text, {
+					key,
+					column,
+					text,
+					level: path.length + 1,
+					rows: [],
+					groups: [],
+					aggregates: {},
+					expanded: !this.collapsed.has(key),
+				});
+			}
+
+			groups.get(text).rows.push(row);
+		}
+
+		// Order the groups by the values of their first row.
+		const entry = this.table.getSortStack().find((item) => item.column === column);
+		const compare = this.host.getComparator(column);
+		const modifier = entry && entry.direction === 'DESC' ? -1 : 1;
+
+		const result = Array.from(groups.values()).sort((a, b) => compare(a.rows[0], b.rows[0]) * modifier);
+
+		for (const group of result) {
+			// Create the subgroups of the next group column.
+			if (path.length + 1 < this.columns.length) {
+				group.groups = this.createGroups(group.rows, [...path, group.text], previousRows);
+			}
+
+			group.aggregates = this.host.calculateAggregates(group.rows);
+
+			// Render the group row, reusing the existing one if possible.
+			const row = previousRows.has(group.key) ? previousRows.get(group.key) : this.createGroupRow(group.key);
+			this.renderGroupRow(row, group);
+			this.groupRows.set(group.key, row);
+		}
+
+		return result;
+	};
+
+	/**
+	 * createGroupRow
+	 *
+	 * Create the table row element displaying a group.
+	 *
+	 * @param {string} key The group key
+	 * @returns {HTMLTableRowElement}
+	 * @private
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	private createGroupRow = (key: string): HTMLTableRowElement => {
+		const row = document.createElement('tr');
+		row.addClass(classes.row, classes.rowGroup);
+		row.setAttribute(attr.groupKey, key);
+
+		return row;
+	};
+
+	/**
+	 * renderGroupRow
+	 *
+	 * Fill the group row with the toggle of the group and its aggregates.
+	 *
+	 * @param {HTMLTableRowElement} row The group row
+	 * @param {MDFTableGroup} group The group
+	 * @private
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	private renderGroupRow = (row: HTMLTableRowElement, group: MDFTableGroup) => {
+		row.setAttribute(attr.level, group.level.toString());
+
+		// Keep the focus inside the group row if it had it.
+		const focusedCell = Array.from(row.cells).findIndex((cell) => cell.contains(document.activeElement));
+
+		// The toggle button displays the group value and the number of rows, it is accessible by keyboard.
+		const toggle = document.createElement('button');
+		toggle.type = 'button';
+		toggle.addClass(classes.groupToggle);
+		toggle.setAttribute(attr.expanded, group.expanded.toString());
+		toggle.textContent = `${this.table.getColumnLabel(group.column)}: ${group.text} (${group.rows.length})`;
+
+		// Interactive grids focus the cell instead, [Enter] and [Space] toggle the group from there.
+		if (this.table.options.interactive) {
+			toggle.tabIndex = -1;
+		}
+
+		this.host.renderAggregateCells(row, group.aggregates, toggle);
+
+		if (focusedCell >= 0) {
+			if (this.table.options.interactive) {
+				this.host.setActiveCell(row.cells[focusedCell], true);
+			} else {
+				toggle.focus();
+			}
+		}
+	};
+
+	/**
+	 * forEachGroup
+	 *
+	 * Call the given function for every group, including subgroups.
+	 *
+	 * @param {Function} callback The function to call
+	 * @private
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	private forEachGroup = (callback: (group: MDFTableGroup) => void) => {
+		const visit = (groups: MDFTableGroup[]) => {
+			for (const group of groups) {
+				callback(group);
+				visit(group.groups);
+			}
+		};
+
+		visit(this.getGroups());
+	};
+
+	/**
+	 * findGroup
+	 *
+	 * Returns the group with the given key.
+	 *
+	 * @param {string} key The group key
+	 * @returns {MDFTableGroup}
+	 * @private
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	private findGroup = (key: string): MDFTableGroup => {
+		let result: MDFTableGroup = null;
+
+		this.forEachGroup((group) => {
+			if (group.key === key) {
+				result = group;
+			}
+		});
+
+		return result;
+	};
+
+	/**
+	 * setGroupExpanded
+	 *
+	 * Expand or collapse a group and remember its state for when the groups are created again.
+	 *
+	 * @param {MDFTableGroup} group The group
+	 * @param {boolean} expanded Wether or not the group is expanded
+	 * @private
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	private setGroupExpanded = (group: MDFTableGroup, expanded: boolean) => {
+		group.expanded = expanded;
+
+		if (expanded) {
+			this.collapsed.delete(group.key);
+		} else {
+			this.collapsed.add(group.key);
+		}
+
+		// Let assistive technologies know about the new state.
+		const toggle = this.groupRows.get(group.key).querySelector(selectors.groupToggle);
+
+		if (toggle) {
+			toggle.setAttribute(attr.expanded, expanded.toString());
+		}
+	};
+
+	/**
+	 * addEvents
+	 *
+	 * Expand and collapse groups using their toggles.
+	 *
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	public addEvents = (): void => {
+		this.table.body.addEventListener('click', this.groupOnClick);
+		this.table.body.addEventListener('keydown', this.groupOnKeydown);
+	};
+
+	/**
+	 * groupOnClick
+	 *
+	 * Expand or collapse a group by clicking its toggle.
+	 *
+	 * @private
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	private groupOnClick = (evt: MouseEvent) => {
+		const toggle = (evt.target as HTMLElement).closest(selectors.groupToggle);
+
+		if (toggle && this.table.body.contains(toggle)) {
+			this.toggleGroup(toggle.closest(selectors.row).getAttribute(attr.groupKey));
+		}
+	};
+
+	/**
+	 * groupOnKeydown
+	 *
+	 * Expand or collapse a group using the arrow keys while its toggle is focused.
+	 * [Enter] and [Space] toggle the group like any other button.
+	 *
+	 * @private
+	 * @memberof MDFTableGrouping
+	 * @since 1.1.0
+	 */
+	private groupOnKeydown = (evt: KeyboardEvent) => {
+		const toggle = (evt.target as HTMLElement).closest(selectors.groupToggle);
+
+		if (!toggle || (evt.key !== 'ArrowRight' && evt.key !== 'ArrowLeft')) return;
+
+		evt.preventDefault();
+
+		// The arrow pointing towards the end of the line expands the group, which is to the left for RTL layouts.
+		const expand = (evt.key === 'ArrowRight') !== isRTL();
+
+		this.toggleGroup(toggle.closest(selectors.row).getAttribute(attr.groupKey), expand);
+	};
+}
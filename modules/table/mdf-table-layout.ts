@@ -0,0 +1,777 @@
+import { isRTL } from '@miraidesigns/utils';
+import { MDFCheckbox } from '@miraidesigns/checkbox';
+import { attr, classes, events, selectors, strings } from './constants';
+import { MDFTable } from './mdf-table';
+import { MDFTableColumn, MDFTableLayout } from './types';
+
+/**
+ * Column layout
+ *
+ * Move, hide and resize the columns of a table and save their layout.
+ *
+ * @version 1.1.0
+ */
+
+/**
+ * The parts of the table the column layout needs besides its public methods.
+ */
+export interface MDFTableColumnLayoutHost {
+	getCheckboxOffset: () => number;
+	getHeaders: () => NodeListOf<HTMLTableCellElement>;
+	getStorageKey: (key: string) => string;
+	layoutUpdated: () => void;
+}
+
+/**
+ * MDFTableColumnLayout
+ *
+ * Keep track of the order, visibility and width of the table columns.
+ * Column indexes always refer to the original order, the order array tells us where each column is displayed.
+ *
+ * @export
+ * @class MDFTableColumnLayout
+ * @version 1.1.0
+ */
+export class MDFTableColumnLayout {
+	private chooser: HTMLElement;
+	private chooserCheckboxes: Map<number, MDFCheckbox>;
+	private dragColumn: number;
+	private hidden: Set<number>;
+	private readonly host: MDFTableColumnLayoutHost;
+	private order: number[];
+	private resizing: { column: number; startX: number; startWidth: number };
+	private readonly table: MDFTable;
+	private widths: Map<number, number>;
+
+	/**
+	 * Creates an instance of MDFTableColumnLayout.
+	 *
+	 * @param {MDFTable} table The table holding the columns
+	 * @param {MDFTableColumnLayoutHost} host The parts of the table we need besides its public methods
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	constructor(table: MDFTable, host: MDFTableColumnLayoutHost) {
+		this.table = table;
+		this.host = host;
+
+		// Columns start in their original order, columns we render from can be hidden from the start.
+		const layout = this.getDefaultLayout();
+
+		this.order = layout.order;
+		this.hidden = new Set(layout.hidden);
+		this.widths = new Map();
+		this.dragColumn = null;
+	}
+
+	/**
+	 * setup
+	 *
+	 * Prepare the table headers and the column chooser, then apply the initial column layout.
+	 *
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	public setup = (): void => {
+		const { container, options } = this.table;
+
+		// If enabled, allow to reorder and resize the table columns using their headers.
+		if (options.reorderable || options.resizable) {
+			this.prepareHeaders();
+		}
+
+		// If available, create a checkbox for each column inside the column chooser.
+		this.chooser = container.querySelector(selectors.columnChooser);
+
+		if (this.chooser) {
+			this.renderColumnChooser();
+		}
+
+		// Apply the initial column layout or, if enabled, the layout saved in localStorage.
+		const savedLayout = options.savePreferences ? this.getSavedLayout() : null;
+
+		this.update(savedLayout ? savedLayout : this.getDefaultLayout());
+	};
+
+	/**
+	 * getOrder
+	 *
+	 * Returns the table column indexes in the order they are displayed, without copying them.
+	 *
+	 * @returns {number[]}
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	public getOrder = (): number[] => {
+		return this.order;
+	};
+
+	/**
+	 * getVisibleColumns
+	 *
+	 * Returns the visible table column indexes in the order they are displayed, leaving out the checkbox column.
+	 *
+	 * @returns {number[]}
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	public getVisibleColumns = (): number[] => {
+		const offset = this.host.getCheckboxOffset();
+
+		return this.order.filter((column) => column >= offset && !this.hidden.has(column));
+	};
+
+	/**
+	 * setColumnVisible
+	 *
+	 * Show or hide a table column. At least one column always stays visible.
+	 *
+	 * @param {number} column Table column index
+	 * @param {boolean} visible Wether or not the column should be visible
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	public setColumnVisible = (column: number, visible: boolean): void => {
+		const count = this.host.getHeaders().length;
+		const offset = this.host.getCheckboxOffset();
+
+		// The checkbox column can't be hidden.
+		if (column < offset || column >= count) return;
+
+		const layout = this.getLayout();
+		const hidden = layout.hidden.filter((item) => item !== column);
+
+		if (!visible) {
+			hidden.push(column);
+		}
+
+		// Don't allow to hide the last visible column.
+		if (hidden.length >= count - offset) {
+			this.syncColumnChooser();
+			return;
+		}
+
+		this.update({ order: layout.order, hidden, widths: layout.widths });
+		this.layoutChanged();
+	};
+
+	/**
+	 * isColumnVisible
+	 *
+	 * Returns wether or not the table column is visible.
+	 *
+	 * @param {number} column Table column index
+	 * @returns {boolean}
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	public isColumnVisible = (column: number): boolean => {
+		return !this.hidden.has(column);
+	};
+
+	/**
+	 * moveColumn
+	 *
+	 * Move a table column to the given position. The checkbox column always stays first.
+	 *
+	 * @param {number} column Table column index
+	 * @param {number} position The position to display the column at
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	public moveColumn = (column: number, position: number): void => {
+		const offset = this.host.getCheckboxOffset();
+
+		// The checkbox column can't be moved.
+		if (column < offset || column >= this.host.getHeaders().length) return;
+
+		// Take the column out and insert it again at its new position.
+		const layout = this.getLayout();
+		const order = layout.order.filter((item) => item !== column);
+		order.splice(Math.min(Math.max(position, offset), order.length), 0, column);
+
+		this.update({ order, hidden: layout.hidden, widths: layout.widths });
+		this.layoutChanged();
+	};
+
+	/**
+	 * setColumnWidth
+	 *
+	 * Set the width of a table column in pixels, `null` lets the browser decide again.
+	 *
+	 * @param {number} column Table column index
+	 * @param {number} width The width in pixels
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	public setColumnWidth = (column: number, width: number): void => {
+		if (column < 0 || column >= this.host.getHeaders().length) return;
+
+		if (width) {
+			this.widths.set(column, Math.max(width, this.table.options.minColumnWidth));
+		} else {
+			this.widths.delete(column);
+		}
+
+		this.applyColumnWidths();
+		this.layoutChanged();
+	};
+
+	/**
+	 * getLayout
+	 *
+	 * Returns the order, hidden columns and widths of the table columns.
+	 *
+	 * @returns {MDFTableLayout}
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	public getLayout = (): MDFTableLayout => {
+		const widths: { [column: number]: number } = {};
+
+		this.widths.forEach((width, column) => {
+			widths[column] = width;
+		});
+
+		return {
+			order: [...this.order],
+			hidden: Array.from(this.hidden).sort((a, b) => a - b),
+			widths,
+		};
+	};
+
+	/**
+	 * setLayout
+	 *
+	 * Apply the order, hidden columns and widths of the table columns, e.g. a layout returned by `getLayout()`.
+	 *
+	 * @param {MDFTableLayout} layout The column layout
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	public setLayout = (layout: MDFTableLayout): void => {
+		this.update(layout);
+		this.layoutChanged();
+	};
+
+	/**
+	 * resetLayout
+	 *
+	 * Display the table columns in their original order, visibility and width again.
+	 *
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	public resetLayout = (): void => {
+		this.setLayout(this.getDefaultLayout());
+	};
+
+	/**
+	 * arrangeCells
+	 *
+	 * Move the cells of a row to where their columns are displayed and hide the cells of hidden columns.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @param {number[]} previousOrder The column order the cells currently follow
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	public arrangeCells = (row: HTMLTableRowElement, previousOrder: number[]): void => {
+		const cells = Array.from(row.cells);
+
+		// Only rows holding a cell for each column can be arranged.
+		if (cells.length !== previousOrder.length) return;
+
+		// Find the cell of each column.
+		const columnCells: HTMLTableCellElement[] = [];
+
+		previousOrder.forEach((column, position) => {
+			columnCells[column] = cells[position];
+		});
+
+		// Append the cells again in their new order, if it changed.
+		if (this.order.some((column, position) => column !== previousOrder[position])) {
+			for (const column of this.order) {
+				row.appendChild(columnCells[column]);
+			}
+		}
+
+		// Hide the cells of hidden columns.
+		columnCells.forEach((cell, column) => {
+			cell.toggleClass(classes.hidden, this.hidden.has(column));
+		});
+	};
+
+	/**
+	 * addEvents
+	 *
+	 * Allow to move and resize the table columns using their headers and to show or hide them using the column chooser.
+	 *
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	public addEvents = (): void => {
+		const { head, options } = this.table;
+
+		// If enabled, allow to move table columns by dragging their headers.
+		if (options.reorderable) {
+			head.addEventListener('dragstart', this.dragStart);
+			head.addEventListener('dragover', this.dragOver);
+			head.addEventListener('drop', this.dropColumn);
+			head.addEventListener('dragend', this.dragEnd);
+		}
+
+		// If enabled, allow to resize table columns using their resize handles.
+		if (options.resizable) {
+			head.addEventListener('pointerdown', this.resizeStart);
+		}
+
+		// If available, show or hide table columns using the column chooser.
+		if (this.chooser) {
+			this.chooser.addEventListener('change', this.columnChooserChange);
+		}
+	};
+
+	/**
+	 * getSavedLayout
+	 *
+	 * Returns the layout of the table columns saved in localStorage.
+	 * Corrupt entries are removed, so the table starts with its default layout.
+	 *
+	 * @returns {MDFTableLayout}
+	 * @private
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	private getSavedLayout = (): MDFTableLayout => {
+		const key = this.host.getStorageKey(strings.layout);
+		const value = localStorage.getItem(key);
+
+		if (!value) return null;
+
+		try {
+			return JSON.parse(value) as MDFTableLayout;
+		} catch (error) {
+			localStorage.removeItem(key);
+
+			return null;
+		}
+	};
+
+	/**
+	 * getDefaultLayout
+	 *
+	 * Returns the layout of the table columns before the user changed it.
+	 *
+	 * @returns {MDFTableLayout}
+	 * @private
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	private getDefaultLayout = (): MDFTableLayout => {
+		const offset = this.host.getCheckboxOffset();
+		const hidden: number[] = [];
+
+		// Columns we rendered from can be hidden from the start.
+		if (this.table.options.columns) {
+			this.table.options.columns.forEach((column: MDFTableColumn, index: number) => {
+				if (column.hidden) {
+					hidden.push(index + offset);
+				}
+			});
+		}
+
+		return {
+			order: Array.from(this.host.getHeaders()).map((header, index) => index),
+			hidden,
+			widths: {},
+		};
+	};
+
+	/**
+	 * update
+	 *
+	 * Make sure the given layout fits the table and apply it to the table header and row elements.
+	 *
+	 * @param {MDFTableLayout} layout The column layout
+	 * @private
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	private update = (layout: MDFTableLayout) => {
+		const count = this.host.getHeaders().length;
+		const offset = this.host.getCheckboxOffset();
+		const previousOrder = this.order;
+
+		// The order has to hold every column exactly once, with the checkbox column in first place.
+		const order = layout && Array.isArray(layout.order) ? layout.order : [];
+		const validOrder =
+			order.length === count &&
+			order.every((column, index) => column >= 0 && column < count && order.indexOf(column) === index) &&
+			(!offset || order[0] === 0);
+
+		this.order = validOrder ? [...order] : previousOrder;
+
+		// The checkbox column can't be hidden.
+		const hidden = layout && Array.isArray(layout.hidden) ? layout.hidden : [];
+		this.hidden = new Set(hidden.filter((column) => column >= offset && column < count));
+
+		// Make sure at least one column stays visible.
+		if (this.hidden.size >= count - offset) {
+			this.hidden.clear();
+		}
+
+		this.widths = new Map();
+
+		if (layout && layout.widths) {
+			for (const key of Object.keys(layout.widths)) {
+				if (+key >= 0 && +key < count && layout.widths[+key] > 0) {
+					this.widths.set(+key, layout.widths[+key]);
+				}
+			}
+		}
+
+		// Move and show or hide the cells of the header row and every table row element.
+		if (this.table.head.rows[0]) {
+			this.arrangeCells(this.table.head.rows[0], previousOrder);
+		}
+
+		for (const row of this.table.rows) {
+			this.arrangeCells(row, previousOrder);
+		}
+
+		this.applyColumnWidths();
+		this.syncColumnChooser();
+
+		// Let the table update whatever depends on the position of the columns.
+		this.host.layoutUpdated();
+	};
+
+	/**
+	 * applyColumnWidths
+	 *
+	 * Set the width of every table header element, columns without a width are sized by the browser.
+	 *
+	 * @private
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	private applyColumnWidths = () => {
+		this.host.getHeaders().forEach((header, column) => {
+			const width = this.widths.has(column) ? `${this.widths.get(column)}px` : '';
+
+			header.style.width = width;
+			header.style.minWidth = width;
+		});
+	};
+
+	/**
+	 * layoutChanged
+	 *
+	 * Save the column layout, if enabled, and let the user know it changed.
+	 *
+	 * @private
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	private layoutChanged = () => {
+		const layout = this.getLayout();
+
+		// If enabled, we will update the user preference in localStorage.
+		if (this.table.options.savePreferences) {
+			localStorage.setItem(this.host.getStorageKey(strings.layout), JSON.stringify(layout));
+		}
+
+		// Dispatch custom event with the new layout.
+		this.table.head.dispatchEvent(
+			new CustomEvent<MDFTableLayout>(events.layoutChanged, {
+				bubbles: true,
+				detail: layout,
+			})
+		);
+	};
+
+	/**
+	 * prepareHeaders
+	 *
+	 * Make the table header elements draggable and add their resize handles.
+	 *
+	 * @private
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	private prepareHeaders = () => {
+		const { options } = this.table;
+
+		this.host.getHeaders().forEach((header, column) => {
+			// The checkbox column can't be moved or resized.
+			if (column < this.host.getCheckboxOffset()) return;
+
+			if (options.reorderable) {
+				header.draggable = true;
+			}
+
+			if (options.resizable) {
+				const handle = document.createElement('span');
+				handle.addClass(classes.resizeHandle);
+				handle.setAttribute(attr.hidden, 'true');
+				header.appendChild(handle);
+			}
+		});
+	};
+
+	/**
+	 * renderColumnChooser
+	 *
+	 * Create a checkbox for each table column inside the column chooser to show or hide it.
+	 * A checkbox placed inside the column chooser is used as template for the others.
+	 *
+	 * @private
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	private renderColumnChooser = () => {
+		// Get the template checkbox and remove it, we only need copies of it.
+		const template = this.chooser.querySelector(selectors.checkbox);
+
+		if (template) {
+			template.remove();
+		}
+
+		this.chooserCheckboxes = new Map();
+
+		this.host.getHeaders().forEach((header, column) => {
+			// The checkbox column can't be hidden.
+			if (column < this.host.getCheckboxOffset()) return;
+
+			// Create the checkbox, either from the template or from scratch.
+			let checkbox: HTMLElement;
+
+			if (template) {
+				checkbox = template.cloneNode(true) as HTMLElement;
+			} else {
+				checkbox = document.createElement('div');
+				checkbox.addClass('mdf-checkbox');
+				checkbox.innerHTML = '<input class="mdf-checkbox__input" type="checkbox"><div class="mdf-checkbox__box"></div>';
+			}
+
+			// The input value tells us which column the checkbox belongs to.
+			const input: HTMLInputElement = checkbox.querySelector(selectors.checkboxInput);
+			input.removeAttribute('id');
+			input.value = column.toString();
+
+			// Wrap the checkbox and the column label in a label element.
+			const item = document.createElement('label');
+			item.addClass(classes.columnChooserItem);
+
+			const label = document.createElement('span');
+			label.textContent = this.table.getColumnLabel(column);
+
+			item.appendChild(checkbox);
+			item.appendChild(label);
+			this.chooser.appendChild(item);
+
+			this.chooserCheckboxes.set(column, new MDFCheckbox(checkbox));
+		});
+	};
+
+	/**
+	 * syncColumnChooser
+	 *
+	 * Make sure the column chooser checkboxes reflect the visible columns.
+	 *
+	 * @private
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	private syncColumnChooser = () => {
+		if (!this.chooserCheckboxes) return;
+
+		this.chooserCheckboxes.forEach((checkbox, column) => {
+			checkbox.checked = !this.hidden.has(column);
+		});
+	};
+
+	/**
+	 * columnChooserChange
+	 *
+	 * Show or hide the table column that belongs to the changed checkbox.
+	 *
+	 * @private
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	private columnChooserChange = (evt: Event) => {
+		const input = evt.target as HTMLInputElement;
+
+		if (input.matches(selectors.checkboxInput)) {
+			this.setColumnVisible(+input.value, input.checked);
+		}
+	};
+
+	/**
+	 * resizeStart
+	 *
+	 * Start resizing a table column when pressing its resize handle.
+	 *
+	 * @private
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	private resizeStart = (evt: PointerEvent) => {
+		const handle = (evt.target as HTMLElement).closest(selectors.resizeHandle);
+
+		if (!handle) return;
+
+		// Prevent text selection while resizing.
+		evt.preventDefault();
+
+		// Get the table header element the handle belongs to.
+		const header: HTMLTableCellElement = handle.closest(selectors.header);
+		header.addClass(classes.headerResizing);
+
+		this.resizing = {
+			column: [...this.host.getHeaders()].indexOf(header),
+			startX: evt.clientX,
+			startWidth: header.offsetWidth,
+		};
+
+		// Follow the pointer until it is released.
+		document.addEventListener('pointermove', this.resizeMove);
+		document.addEventListener('pointerup', this.resizeEnd);
+	};
+
+	/**
+	 * resizeMove
+	 *
+	 * Update the width of the resized table column while moving the pointer.
+	 *
+	 * @private
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	private resizeMove = (evt: PointerEvent) => {
+		// Moving towards the end of the line makes the column wider, which is to the left for RTL layouts.
+		const distance = (evt.clientX - this.resizing.startX) * (isRTL() ? -1 : 1);
+
+		this.widths.set(
+			this.resizing.column,
+			Math.max(this.resizing.startWidth + distance, this.table.options.minColumnWidth)
+		);
+
+		this.applyColumnWidths();
+	};
+
+	/**
+	 * resizeEnd
+	 *
+	 * Stop resizing once the pointer is released.
+	 *
+	 * @private
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	private resizeEnd = () => {
+		this.host.getHeaders()[this.resizing.column].removeClass(classes.headerResizing);
+		this.resizing = null;
+
+		document.removeEventListener('pointermove', this.resizeMove);
+		document.removeEventListener('pointerup', this.resizeEnd);
+
+		this.layoutChanged();
+	};
+
+	/**
+	 * dragStart
+	 *
+	 * Start moving a table column when dragging its header.
+	 *
+	 * @private
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	private dragStart = (evt: DragEvent) => {
+		const header: HTMLTableCellElement = (evt.target as HTMLElement).closest(selectors.header);
+
+		if (!header || !header.draggable) return;
+
+		// Resizing a column shouldn't move it.
+		if (this.resizing) {
+			evt.preventDefault();
+			return;
+		}
+
+		this.dragColumn = this.order[header.cellIndex];
+		header.addClass(classes.headerDragging);
+
+		// Some browsers only start dragging once we set the data.
+		evt.dataTransfer.effectAllowed = 'move';
+		evt.dataTransfer.setData('text/plain', this.table.getColumnLabel(this.dragColumn));
+	};
+
+	/**
+	 * dragOver
+	 *
+	 * Highlight the table header element the dragged column would be dropped on.
+	 *
+	 * @private
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	private dragOver = (evt: DragEvent) => {
+		if (this.dragColumn === null) return;
+
+		const header: HTMLTableCellElement = (evt.target as HTMLElement).closest(selectors.header);
+
+		// Only other draggable headers accept the column.
+		if (!header || !header.draggable) return;
+
+		// Allow to drop the column.
+		evt.preventDefault();
+		evt.dataTransfer.dropEffect = 'move';
+
+		this.host.getHeaders().forEach((item, column) => {
+			item.toggleClass(classes.headerDropTarget, item === header && column !== this.dragColumn);
+		});
+	};
+
+	/**
+	 * dropColumn
+	 *
+	 * Move the dragged table column to the position of the header it was dropped on.
+	 *
+	 * @private
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	private dropColumn = (evt: DragEvent) => {
+		if (this.dragColumn === null) return;
+
+		const header: HTMLTableCellElement = (evt.target as HTMLElement).closest(selectors.header);
+
+		if (header && header.draggable) {
+			evt.preventDefault();
+
+			this.moveColumn(this.dragColumn, header.cellIndex);
+		}
+
+		this.dragEnd();
+	};
+
+	/**
+	 * dragEnd
+	 *
+	 * Remove the drag styling once a table column is dropped or the drag is canceled.
+	 *
+	 * @private
+	 * @memberof MDFTableColumnLayout
+	 * @since 1.1.0
+	 */
+	private dragEnd = () => {
+		this.dragColumn = null;
+
+		this.host.getHeaders().forEach((header) => {
+			header.removeClass(classes.headerDragging, classes.headerDropTarget);
+		});
+	};
+}
@@ -0,0 +1,72 @@
+import { MDFTablePaginationStats } from './types';
+
+/**
+ * Pagination
+ *
+ * Helpers the table uses to display its pagination controls.
+ *
+ * @version 1.1.0
+ */
+
+/**
+ * getPageItems
+ *
+ * Returns the pages to list for the current page. The first and last page are always listed,
+ * pages too far away from the current one are replaced by `null`, marking an ellipsis.
+ *
+ * @export
+ * @param {number} page The current page
+ * @param {number} pages Total number of pages
+ * @param {number} siblings Number of pages listed on each side of the current page
+ * @returns {number[]}
+ * @version 1.1.0
+ *
+ * @example getPageItems(5, 10, 1) // [1, null, 4, 5, 6, null, 10]
+ */
+export function getPageItems(page: number, pages: number, siblings: number): number[] {
+	// The first, last and current page, their siblings and two ellipses. We always use the same number of items.
+	if (pages <= siblings * 2 + 5) {
+		return Array.from({ length: pages }, (_, index) => index + 1);
+	}
+
+	// The pages around the current one, the range keeps its size near the first and last page.
+	const start = Math.max(2, Math.min(page - siblings, pages - siblings * 2 - 2));
+	const end = Math.min(pages - 1, Math.max(page + siblings, siblings * 2 + 3));
+
+	const items = [1];
+
+	// An ellipsis replacing a single page wouldn't save any space, we list the page instead.
+	if (start > 3) {
+		items.push(null);
+	} else if (start === 3) {
+		items.push(2);
+	}
+
+	for (let i = start; i <= end; i++) {
+		items.push(i);
+	}
+
+	if (end < pages - 2) {
+		items.push(null);
+	} else if (end === pages - 2) {
+		items.push(pages - 1);
+	}
+
+	items.push(pages);
+
+	return items;
+}
+
+/**
+ * formatStats
+ *
+ * The default pagination stats, e.g. `1-50 of 200`.
+ *
+ * @export
+ * @param {MDFTablePaginationStats} stats The pagination stats
+ * @returns {string}
+ * @version 1.1.0
+ */
+export function formatStats(stats: MDFTablePaginationStats): string {
+	return `${stats.from}-${stats.to} of ${stats.total}`;
+}
@@ -0,0 +1,411 @@
+import '@miraidesigns/base';
+import { classes, events } from './constants';
+import { MDFTable } from './mdf-table';
+import { getAggregate } from './mdf-table-aggregates';
+import { compareValues } from './mdf-table-columns';
+import {
+	MDFTableColumn,
+	MDFTablePivotedEvent,
+	MDFTablePivotGroup,
+	MDFTablePivotOptions,
+	MDFTableRecord,
+} from './types';
+
+/**
+ * MDFTablePivot
+ *
+ * Summarize the rows of a table by the values of some of its columns and display the result as a new table.
+ * The pivot table is generated again whenever the source table is filtered.
+ *
+ * @export
+ * @class MDFTablePivot
+ * @version 1.1.0
+ */
+export class MDFTablePivot {
+	public readonly container: HTMLElement;
+	public readonly options: MDFTablePivotOptions;
+	public readonly source: MDFTable;
+	public table: MDFTable;
+
+	private defaults: MDFTablePivotOptions;
+
+	/**
+	 * Creates an instance of MDFTablePivot.
+	 *
+	 * @param {MDFTable} source The table holding the data to summarize
+	 * @param {Element} container The element the pivot table is rendered into
+	 * @param {MDFTablePivotOptions} [options] Object holding user options
+	 * @memberof MDFTablePivot
+	 * @since 1.1.0
+	 */
+	constructor(source: MDFTable, container: Element, options?: MDFTablePivotOptions) {
+		// If the supplied table or element doesn't exist, abort the script.
+		if (!source || !source.body || !container) return;
+
+		// Store a reference to the given table and element.
+		this.source = source;
+		this.container = container as HTMLElement;
+
+		// Default options values.
+		this.defaults = {
+			rows: [],
+			columns: [],
+			value: null,
+			aggregate: 'count',
+			valueLabel: null,
+			formatter: null,
+			totals: false,
+			totalLabel: 'Total',
+			emptyLabel: '(Empty)',
+			separator: ' / ',
+			tableOptions: {},
+		};
+
+		// Merge defaults with user specified options.
+		this.options = Object.assign({}, this.defaults, options);
+
+		// Generate the pivot table.
+		this.update();
+
+		// Add event listeners.
+		this.addEvents();
+	}
+
+	/**
+	 * update
+	 *
+	 * Generate the pivot table again from the rows of the source table, respecting its filters.
+	 * The pivot table keeps its sort order as long as the sorted columns still exist.
+	 *
+	 * @memberof MDFTablePivot
+	 * @since 1.1.0
+	 */
+	public update = (): void => {
+		// Filtered tables only summarize the matching rows.
+		const rows = this.source.getFilteredRows() ? this.source.getFilteredRows() : this.source.rows;
+
+		const rowGroups = this.groupRows(rows, this.options.rows);
+		const columnGroups = this.groupRows(rows, this.options.columns);
+
+		// The rows each column group is made of, to find the rows shared with a row group.
+		const columnIndexes = new Map<HTMLTableRowElement, number>();
+
+		columnGroups.forEach((group, index) => {
+			for (const row of group.rows) {
+				columnIndexes.set(row, index);
+			}
+		});
+
+		// The row dimensions display their labels, but sort by their raw values.
+		const columns: MDFTableColumn[] = this.options.rows.map((column, index) => ({
+			key: `row${index}`,
+			label: this.source.getColumnLabel(column),
+			sortable: true,
+			formatter: (value: unknown, record: MDFTableRecord) => (record.labels as string[])[index],
+		}));
+
+		// Each combination of column dimension values receives a column, without any there is a single column.
+		columnGroups.forEach((group, index) => {
+			columns.push({
+				key: `value${index}`,
+				label: group.labels.length ? group.labels.join(this.options.separator) : this.getValueLabel(),
+				type: 'number',
+				sortable: true,
+				formatter: this.formatValue,
+			});
+		});
+
+		// If enabled, summarize all rows of a row group regardless of the column dimensions.
+		const totals = this.options.totals && this.options.columns.length > 0;
+
+		if (totals) {
+			columns.push({
+				key: 'total',
+				label: this.options.totalLabel,
+				type: 'number',
+				sortable: true,
+				formatter: this.formatValue,
+			});
+		}
+
+		const records = rowGroups.map((group) => {
+			const record: MDFTableRecord = { labels: group.labels };
+
+			group.keys.forEach((key, index) => {
+				record[`row${index}`] = key;
+			});
+
+			// Split the rows of the row group by their column group.
+			const cells: HTMLTableRowElement[][] = columnGroups.map((): HTMLTableRowElement[] => []);
+
+			for (const row of group.rows) {
+				cells[columnIndexes.get(row)].push(row);
+			}
+
+			// Combinations without any rows are left empty.
+			cells.forEach((cellRows, index) => {
+				record[`value${index}`] = cellRows.length ? this.calculate(cellRows) : null;
+			});
+
+			if (totals) {
+				record.total = this.calculate(group.rows);
+			}
+
+			return record;
+		});
+
+		this.render(columns, records);
+
+		// Dispatch custom event with the columns and records of the pivot table.
+		this.container.dispatchEvent(
+			new CustomEvent<MDFTablePivotedEvent>(events.pivoted, {
+				bubbles: true,
+				detail: {
+					columns,
+					records,
+				},
+			})
+		);
+	};
+
+	/**
+	 * setOptions
+	 *
+	 * Change the dimensions, the value or the aggregate of the pivot table and generate it again.
+	 *
+	 * @param {MDFTablePivotOptions} options The options to change
+	 * @memberof MDFTablePivot
+	 * @since 1.1.0
+	 */
+	public setOptions = (options: MDFTablePivotOptions): void => {
+		Object.assign(this.options, options);
+
+		this.update();
+	};
+
+	/**
+	 * destroy
+	 *
+	 * Remove the pivot table and stop following the source table.
+	 *
+	 * @memberof MDFTablePivot
+	 * @since 1.1.0
+	 */
+	public destroy = (): void => {
+		this.removeEvents();
+
+		this.container.textContent = '';
+		this.table = null;
+	};
+
+	/**
+	 * groupRows
+	 *
+	 * Group the table row elements by the raw values of the given columns.
+	 * The groups are ordered by their values, compared like the source table sorts them.
+	 *
+	 * @param {HTMLTableRowElement[]} rows The table row elements
+	 * @param {number[]} columns Source table column indexes
+	 * @returns {MDFTablePivotGroup[]}
+	 * @private
+	 * @memberof MDFTablePivot
+	 * @since 1.1.0
+	 */
+	private groupRows = (rows: HTMLTableRowElement[], columns: number[]): MDFTablePivotGroup[] => {
+		const groups = new Map<string, MDFTablePivotGroup>();
+
+		for (const row of rows) {
+			const keys = columns.map((column) => this.source.getCellText(row, column));
+			const id = JSON.stringify(keys);
+
+			if (!groups.has(id)) {
+				groups.set(id, {
+					keys,
+					labels: columns.map((column, index) => this.getLabel(row, column, keys[index])),
+					rows: [],
+				});
+			}
+
+			groups.get(id).rows.push(row);
+		}
+
+		// Parse the values with the column types, moving on to the next column as long as two groups are equal.
+		const types = columns.map((column) => this.source.getColumnType(column));
+
+		return Array.from(groups.values()).sort((a, b) => {
+			for (let i = 0; i < types.length; i++) {
+				const compare = types[i].compare ? types[i].compare : compareValues;
+				const parse = (value: string): unknown => (types[i].parse ? types[i].parse(value) : value);
+				const result = compare(parse(a.keys[i]), parse(b.keys[i]));
+
+				if (result !== 0) {
+					return result;
+				}
+			}
+
+			return 0;
+		});
+	};
+
+	/**
+	 * getLabel
+	 *
+	 * Returns the text a source table cell displays, which can differ from its raw value.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @param {number} column Source table column index
+	 * @param {string} key The raw value of the cell
+	 * @returns {string}
+	 * @private
+	 * @memberof MDFTablePivot
+	 * @since 1.1.0
+	 */
+	private getLabel = (row: HTMLTableRowElement, column: number, key: string): string => {
+		const cell = row.cells[this.source.getColumnOrder().indexOf(column)];
+		const text = cell ? cell.textContent.trim() : key;
+
+		return text ? text : this.options.emptyLabel;
+	};
+
+	/**
+	 * calculate
+	 *
+	 * Summarize the values of the given table row elements using the aggregate.
+	 * Without a value column, each row counts as `1`.
+	 *
+	 * @param {HTMLTableRowElement[]} rows The table row elements
+	 * @returns {unknown}
+	 * @private
+	 * @memberof MDFTablePivot
+	 * @since 1.1.0
+	 */
+	private calculate = (rows: HTMLTableRowElement[]): unknown => {
+		const aggregate =
+			typeof this.options.aggregate === 'function' ? this.options.aggregate : getAggregate(this.options.aggregate);
+
+		const values =
+			this.options.value === null || this.options.value === undefined
+				? rows.map(() => 1)
+				: rows.map((row): unknown => this.source.getCellValue(row, this.options.value));
+
+		return aggregate(values, rows) as unknown;
+	};
+
+	/**
+	 * getValueLabel
+	 *
+	 * Returns the label of the value column, e.g. `Sum of Price`.
+	 *
+	 * @returns {string}
+	 * @private
+	 * @memberof MDFTablePivot
+	 * @since 1.1.0
+	 */
+	private getValueLabel = (): string => {
+		if (this.options.valueLabel) return this.options.valueLabel;
+
+		// Without a value column we count the rows.
+		if (this.options.value === null || this.options.value === undefined) return 'Count';
+
+		const label = this.source.getColumnLabel(this.options.value);
+
+		// Custom aggregates don't have a name.
+		if (typeof this.options.aggregate !== 'string') return label;
+
+		return `${this.options.aggregate.charAt(0).toUpperCase()}${this.options.aggregate.slice(1)} of ${label}`;
+	};
+
+	/**
+	 * formatValue
+	 *
+	 * Format a summarized value for display, values that couldn't be calculated are left empty.
+	 *
+	 * @param {any} value The summarized value
+	 * @returns {string}
+	 * @private
+	 * @memberof MDFTablePivot
+	 * @since 1.1.0
+	 */
+	private formatValue = (value: any): string => {
+		if (this.options.formatter) return this.options.formatter(value);
+
+		if (value === null || value === undefined || (typeof value === 'number' && isNaN(value))) return '';
+
+		return typeof value === 'number' ? value.toLocaleString() : String(value);
+	};
+
+	/**
+	 * render
+	 *
+	 * Replace the pivot table with a new table displaying the given columns and records.
+	 * A new table is created each time, as the columns change with the data.
+	 *
+	 * @param {MDFTableColumn[]} columns The columns of the pivot table
+	 * @param {MDFTableRecord[]} records The records of the pivot table
+	 * @private
+	 * @memberof MDFTablePivot
+	 * @since 1.1.0
+	 */
+	private render = (columns: MDFTableColumn[], records: MDFTableRecord[]) => {
+		// Keep the sort order of the previous table, as long as its columns still exist.
+		const sortStack = this.table ? this.table.getSortStack().filter((entry) => entry.column < columns.length) : [];
+
+		// Create the table container, the table head and body are filled by the table itself.
+		const element = document.createElement('div');
+		element.addClass(classes.container);
+
+		const table = document.createElement('table');
+		table.addClass(classes.table);
+		element.appendChild(table);
+
+		table.appendChild(document.createElement('thead'));
+
+		const body = document.createElement('tbody');
+		body.addClass(classes.content);
+		table.appendChild(body);
+
+		this.container.textContent = '';
+		this.container.appendChild(element);
+
+		this.table = new MDFTable(
+			element,
+			Object.assign({ sortable: true }, this.options.tableOptions, { columns, data: records })
+		);
+
+		// The row dimensions are compared like the source columns.
+		this.options.rows.forEach((column, index) => {
+			this.table.setColumnType(index, this.source.getColumnType(column));
+		});
+
+		if (sortStack.length) {
+			this.table.sortBy(sortStack);
+		}
+	};
+
+	/**
+	 * addEvents
+	 *
+	 * Add event listeners.
+	 *
+	 * @private
+	 * @memberof MDFTablePivot
+	 * @since 1.1.0
+	 */
+	private addEvents = () => {
+		// Generate the pivot table again whenever the source table is filtered.
+		this.source.body.addEventListener(events.filtered, this.update);
+	};
+
+	/**
+	 * removeEvents
+	 *
+	 * Remove event listeners.
+	 *
+	 * @private
+	 * @memberof MDFTablePivot
+	 * @since 1.1.0
+	 */
+	private removeEvents = () => {
+		this.source.body.removeEventListener(events.filtered, this.update);
+	};
+}
@@ -0,0 +1,151 @@
+import { compareValues } from './mdf-table-columns';
+import { compileFilter, matchesFilter } from './mdf-table-filters';
+import { MDFTableDataProvider, MDFTableDataRequest, MDFTableFilter, MDFTableRecord } from './types';
+
+/**
+ * Data providers
+ *
+ * Helpers for tables that load their data page by page, e.g. from an API.
+ *
+ * @version 1.1.0
+ */
+
+/**
+ * toText
+ *
+ * Convert a record value to the text filters check.
+ *
+ * @param {unknown} value The record value
+ * @returns {string}
+ */
+function toText(value: unknown): string {
+	if (value === null || value === undefined) return '';
+
+	return value instanceof Date ? value.toISOString() : String(value);
+}
+
+/**
+ * toComparable
+ *
+ * Convert a record value to a value we can compare, dates are compared by their timestamp.
+ *
+ * @param {unknown} value The record value
+ * @returns {unknown}
+ */
+function toComparable(value: unknown): unknown {
+	return value instanceof Date ? value.getTime() : value;
+}
+
+/**
+ * matchesRecord
+ *
+ * Check a record against the prepared filters of a data request.
+ *
+ * @param {MDFTableRecord} record The record to check
+ * @param {MDFTableDataRequest} request The data request
+ * @param {MDFTableFilter[]} filters The filters prepared by `compileFilters`
+ * @returns {boolean}
+ */
+function matchesRecord(record: MDFTableRecord, request: MDFTableDataRequest, filters: MDFTableFilter[]): boolean {
+	const check = (filter: MDFTableFilter): boolean => {
+		// Filters without a column check all values of the record.
+		if (filter.column === undefined || filter.column === null) {
+			const text = Object.keys(record)
+				.map((key) => toText(record[key]))
+				.join(' ');
+
+			return matchesFilter(text, text, filter);
+		}
+
+		const value: unknown = record[request.columns[filter.column]];
+
+		return matchesFilter(toText(value), value, filter);
+	};
+
+	// Records need to match either any or all of the filters.
+	return request.filter.logic && request.filter.logic.toUpperCase() === 'OR'
+		? filters.some(check)
+		: filters.every(check);
+}
+
+/**
+ * compileFilters
+ *
+ * Prepare the filters of a data request once for all records. Invalid filters are left out, like the table does.
+ *
+ * @param {MDFTableFilter[]} filters The filters to prepare
+ * @returns {MDFTableFilter[]}
+ */
+function compileFilters(filters: MDFTableFilter[]): MDFTableFilter[] {
+	const compiled: MDFTableFilter[] = [];
+
+	for (const filter of filters) {
+		try {
+			compiled.push(compileFilter(filter));
+		} catch (error) {
+			// Leave out the invalid filter.
+		}
+	}
+
+	return compiled;
+}
+
+/**
+ * createMemoryProvider
+ *
+ * Create a data provider that sorts, filters and paginates the given records in memory.
+ * Useful to try out remote tables or to test them without a server.
+ *
+ * @export
+ * @param {MDFTableRecord[]} records The records to provide
+ * @param {number} [delay=0] Time in milliseconds each response takes, to simulate a network
+ * @returns {MDFTableDataProvider}
+ * @version 1.1.0
+ *
+ * @example new MDFTable(container, { columns, dataProvider: createMemoryProvider(records, 300), paginate: true })
+ */
+export function createMemoryProvider(records: MDFTableRecord[], delay = 0): MDFTableDataProvider {
+	return (request: MDFTableDataRequest) => {
+		return new Promise((resolve, reject) => {
+			const timer = setTimeout(() => {
+				let rows = [...records];
+
+				// Apply the filters.
+				const filters = request.filter && request.filter.filters ? compileFilters(request.filter.filters) : [];
+
+				if (filters.length) {
+					rows = rows.filter((record) => matchesRecord(record, request, filters));
+				}
+
+				// Sort by every column of the stack, moving on to the next one as long as two records are equal.
+				if (request.sort && request.sort.length) {
+					rows.sort((a, b) => {
+						for (const entry of request.sort) {
+							const key = request.columns[entry.column];
+							const result = compareValues(toComparable(a[key]), toComparable(b[key]));
+
+							if (result !== 0) {
+								return entry.direction === 'DESC' ? -result : result;
+							}
+						}
+
+						return 0;
+					});
+				}
+
+				// Return the records of the requested page.
+				const from = (request.page - 1) * request.limit;
+
+				resolve({ rows: rows.slice(from, from + request.limit), total: rows.length });
+			}, delay);
+
+			// Canceled requests reject with an `AbortError`, callers need to handle it.
+			if (request.signal) {
+				request.signal.addEventListener('abort', () => {
+					clearTimeout(timer);
+					reject(new DOMException('The request was canceled.', 'AbortError'));
+				});
+			}
+		});
+	};
+}
@@ -0,0 +1,601 @@
+import { attr, classes, events, selectors } from './constants';
+import { MDFTable } from './mdf-table';
+import { MDFTableReorderedEvent, MDFTableReorderStatus } from './types';
+
+/**
+ * Row reordering
+ *
+ * Move the rows of a table to a new position by dragging their handles or by keyboard.
+ *
+ * @version 1.1.0
+ */
+
+/**
+ * getScrollSpeed
+ *
+ * Returns the distance in pixels to scroll per frame while dragging near the edge of a scroll area.
+ * The closer the pointer gets to the edge, the faster we scroll. Negative values scroll up.
+ *
+ * @export
+ * @param {number} position Vertical position of the pointer
+ * @param {number} start Top edge of the scroll area
+ * @param {number} end Bottom edge of the scroll area
+ * @param {number} [edge=48] Size of the area near each edge that scrolls
+ * @param {number} [maxSpeed=16] Distance scrolled per frame when the pointer reaches the edge
+ * @returns {number}
+ * @version 1.1.0
+ *
+ * @example getScrollSpeed(590, 0, 600) // 13
+ */
+export function getScrollSpeed(position: number, start: number, end: number, edge = 48, maxSpeed = 16): number {
+	// The edges would overlap inside small scroll areas.
+	const size = Math.min(edge, (end - start) / 2);
+
+	if (size <= 0) return 0;
+
+	if (position < start + size) {
+		return -Math.round(maxSpeed * Math.min((start + size - position) / size, 1));
+	}
+
+	if (position > end - size) {
+		return Math.round(maxSpeed * Math.min((position - (end - size)) / size, 1));
+	}
+
+	return 0;
+}
+
+/**
+ * formatReorderStatus
+ *
+ * The default announcement while reordering table rows by keyboard, e.g. `Row moved to position 3 of 10.`
+ *
+ * @export
+ * @param {MDFTableReorderStatus} status The reorder status
+ * @returns {string}
+ * @version 1.1.0
+ */
+export function formatReorderStatus(status: MDFTableReorderStatus): string {
+	const position = `position ${status.position} of ${status.total}`;
+
+	switch (status.action) {
+		case 'grabbed':
+			return `Row grabbed at ${position}. Use the arrow keys to move it, Space to drop it and Escape to cancel.`;
+		case 'moved':
+			return `Row moved to ${position}.`;
+		case 'dropped':
+			return `Row dropped at ${position}.`;
+		default:
+			return `Reordering canceled, the row returned to ${position}.`;
+	}
+}
+
+/**
+ * The parts of the table the row reordering needs besides its public methods.
+ */
+export interface MDFTableRowReorderHost {
+	getControlsCell: (row: HTMLTableRowElement) => HTMLTableCellElement;
+	getPageLimit: () => number;
+	getRowKey: (row: HTMLTableRowElement) => string;
+	getViewRows: () => HTMLTableRowElement[];
+	isGrouped: () => boolean;
+	isTableRow: (row: HTMLTableRowElement) => boolean;
+	placeRow: (row: HTMLTableRowElement, to: number) => void;
+	scrollToRow: (index: number) => void;
+	showPage: (page: number) => void;
+}
+
+/**
+ * MDFTableRowReorder
+ *
+ * Reorder the table rows using drag handles or the keyboard. The position of rows moved by keyboard is announced
+ * to assistive technologies.
+ *
+ * @export
+ * @class MDFTableRowReorder
+ * @version 1.1.0
+ */
+export class MDFTableRowReorder {
+	private grabbedRow: { row: HTMLTableRowElement; from: number; moving: boolean };
+	private readonly host: MDFTableRowReorderHost;
+	private liveRegion: HTMLElement;
+	private rowDrag: {
+		row: HTMLTableRowElement;
+		target: HTMLTableRowElement;
+		after: boolean;
+		pointerY: number;
+		frame: number;
+	};
+	private readonly table: MDFTable;
+
+	/**
+	 * Creates an instance of MDFTableRowReorder.
+	 *
+	 * @param {MDFTable} table The table holding the rows
+	 * @param {MDFTableRowReorderHost} host The parts of the table we need besides its public methods
+	 * @memberof MDFTableRowReorder
+	 * @since 1.1.0
+	 */
+	constructor(table: MDFTable, host: MDFTableRowReorderHost) {
+		this.table = table;
+		this.host = host;
+
+		// Create the live region that announces the position of table rows reordered by keyboard.
+		this.liveRegion = document.createElement('div');
+		this.liveRegion.addClass(classes.live);
+		this.liveRegion.setAttribute(attr.live, 'assertive');
+		this.table.container.appendChild(this.liveRegion);
+	}
+
+	/**
+	 * canReorder
+	 *
+	 * Check if the table rows can be reordered right now. Grouped tables order their rows by group.
+	 *
+	 * @returns {boolean}
+	 * @memberof MDFTableRowReorder
+	 * @since 1.1.0
+	 */
+	public canReorder = (): boolean => {
+		return !this.host.isGrouped();
+	};
+
+	/**
+	 * placeDragHandle
+	 *
+	 * Add the drag handle to the first visible column of a table row, creating it if necessary.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @memberof MDFTableRowReorder
+	 * @since 1.1.0
+	 */
+	public placeDragHandle = (row: HTMLTableRowElement): void => {
+		const cell = this.host.getControlsCell(row);
+
+		if (!cell) return;
+
+		let handle: HTMLButtonElement = row.querySelector(selectors.dragHandle);
+
+		if (!handle) {
+			// The handle holds no text, so sorting, filtering and exports still use the cell text.
+			handle = document.createElement('button');
+			handle.type = 'button';
+			handle.addClass(classes.dragHandle);
+			handle.setAttribute(attr.label, this.table.options.reorderLabel);
+			handle.setAttribute(attr.pressed, 'false');
+
+			// Interactive grids focus the cell instead, [Space] grabs the row from there.
+			if (this.table.options.interactive) {
+				handle.tabIndex = -1;
+			}
+		}
+
+		// Moving the handle would remove its focus.
+		if (cell.firstChild !== handle) {
+			cell.insertBefore(handle, cell.firstChild);
+		}
+	};
+
+	/**
+	 * moveRow
+	 *
+	 * Move the table row element at the given index to a new index, both refer to the current order of the rows.
+	 *
+	 * @param {number} from Current index of the row
+	 * @param {number} to New index of the row
+	 * @memberof MDFTableRowReorder
+	 * @since 1.1.0
+	 */
+	public moveRow = (from: number, to: number): void => {
+		const { rows } = this.table;
+		const row = rows[from];
+
+		// Don't continue if the row doesn't exist or keeps its position.
+		if (!row || !this.canReorder() || to < 0 || to >= rows.length || to === from) return;
+
+		this.host.placeRow(row, to);
+		this.dispatchReordered(row, from, to);
+	};
+
+	/**
+	 * grabRow
+	 *
+	 * Grab a table row to move it by keyboard.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @memberof MDFTableRowReorder
+	 * @since 1.1.0
+	 */
+	public grabRow = (row: HTMLTableRowElement): void => {
+		if (!this.canReorder()) return;
+
+		this.grabbedRow = { row, from: this.table.rows.indexOf(row), moving: false };
+
+		row.addClass(classes.rowDragging);
+		row.querySelector(selectors.dragHandle).setAttribute(attr.pressed, 'true');
+
+		this.announceReorder('grabbed', row);
+	};
+
+	/**
+	 * addEvents
+	 *
+	 * Reorder table rows by dragging their handles or by keyboard.
+	 *
+	 * @memberof MDFTableRowReorder
+	 * @since 1.1.0
+	 */
+	public addEvents = (): void => {
+		const { body } = this.table;
+
+		body.addEventListener('pointerdown', this.rowDragStart);
+		body.addEventListener('keydown', this.reorderOnKeydown);
+		body.addEventListener('focusout', this.reorderOnFocusOut);
+	};
+
+	/**
+	 * dispatchReordered
+	 *
+	 * Dispatch the reordered event for a table row that was moved.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @param {number} from Previous index of the row
+	 * @param {number} to New index of the row
+	 * @private
+	 * @memberof MDFTableRowReorder
+	 * @since 1.1.0
+	 */
+	private dispatchReordered = (row: HTMLTableRowElement, from: number, to: number) => {
+		this.table.body.dispatchEvent(
+			new CustomEvent<MDFTableReorderedEvent>(events.reordered, {
+				bubbles: true,
+				detail: {
+					from,
+					to,
+					key: this.host.getRowKey(row),
+					row,
+				},
+			})
+		);
+	};
+
+	/**
+	 * rowDragStart
+	 *
+	 * Start dragging a table row when pressing its drag handle, using a mouse, pen or touch.
+	 *
+	 * @private
+	 * @memberof MDFTableRowReorder
+	 * @since 1.1.0
+	 */
+	private rowDragStart = (evt: PointerEvent) => {
+		const handle = (evt.target as HTMLElement).closest(selectors.dragHandle);
+
+		// Only the primary button drags, rows grabbed by keyboard have to be dropped first.
+		if (!handle || evt.button !== 0 || this.grabbedRow || !this.canReorder()) return;
+
+		// Prevent text selection while dragging.
+		evt.preventDefault();
+
+		const row = handle.closest('tr');
+		row.addClass(classes.rowDragging);
+
+		this.rowDrag = { row, target: null, after: false, pointerY: evt.clientY, frame: null };
+
+		// Follow the pointer until it is released.
+		document.addEventListener('pointermove', this.rowDragMove);
+		document.addEventListener('pointerup', this.rowDragEnd);
+		document.addEventListener('pointercancel', this.rowDragEnd);
+
+		// Scroll while the pointer is near the edge of the scroll area.
+		this.rowDrag.frame = requestAnimationFrame(this.autoScroll);
+	};
+
+	/**
+	 * rowDragMove
+	 *
+	 * Highlight where the dragged table row would be dropped while moving the pointer.
+	 *
+	 * @private
+	 * @memberof MDFTableRowReorder
+	 * @since 1.1.0
+	 */
+	private rowDragMove = (evt: PointerEvent) => {
+		this.rowDrag.pointerY = evt.clientY;
+		this.updateDropTarget();
+	};
+
+	/**
+	 * updateDropTarget
+	 *
+	 * Find the displayed table row below the pointer and mark if the dragged row would be dropped before or after it.
+	 * Pointers above or below the rows drop the row before the first or after the last displayed row.
+	 *
+	 * @private
+	 * @memberof MDFTableRowReorder
+	 * @since 1.1.0
+	 */
+	private updateDropTarget = () => {
+		const { row, pointerY } = this.rowDrag;
+
+		// Group rows, detail rows and spacers don't accept the row.
+		const rows = Array.from(this.table.body.rows).filter(
+			(item) => this.host.isTableRow(item) && !item.hasClass(classes.hidden)
+		);
+
+		let target: HTMLTableRowElement = null;
+		let after = false;
+
+		for (const item of rows) {
+			const rect = item.getBoundingClientRect();
+
+			if (pointerY < rect.bottom) {
+				target = item;
+				after = pointerY > rect.top + rect.height / 2;
+				break;
+			}
+		}
+
+		if (!target && rows.length) {
+			target = rows[rows.length - 1];
+			after = true;
+		}
+
+		// Dropping the row on itself keeps its position.
+		if (target === row) {
+			target = null;
+		}
+
+		if (this.rowDrag.target) {
+			this.rowDrag.target.removeClass(classes.rowDropBefore, classes.rowDropAfter);
+		}
+
+		if (target) {
+			target.addClass(after ? classes.rowDropAfter : classes.rowDropBefore);
+		}
+
+		this.rowDrag.target = target;
+		this.rowDrag.after = after;
+	};
+
+	/**
+	 * autoScroll
+	 *
+	 * Scroll the table container, or the page if the container doesn't scroll, while dragging near its edge.
+	 *
+	 * @private
+	 * @memberof MDFTableRowReorder
+	 * @since 1.1.0
+	 */
+	private autoScroll = () => {
+		if (!this.rowDrag) return;
+
+		const { container } = this.table;
+		let speed: number;
+
+		if (container.scrollHeight > container.clientHeight) {
+			const rect = container.getBoundingClientRect();
+
+			speed = getScrollSpeed(this.rowDrag.pointerY, rect.top, rect.bottom);
+			container.scrollTop += speed;
+		} else {
+			speed = getScrollSpeed(this.rowDrag.pointerY, 0, window.innerHeight);
+			window.scrollBy(0, speed);
+		}
+
+		// Other rows moved below the pointer.
+		if (speed) {
+			this.updateDropTarget();
+		}
+
+		this.rowDrag.frame = requestAnimationFrame(this.autoScroll);
+	};
+
+	/**
+	 * rowDragEnd
+	 *
+	 * Move the dragged table row once the pointer is released, canceled pointers keep the row where it was.
+	 *
+	 * @private
+	 * @memberof MDFTableRowReorder
+	 * @since 1.1.0
+	 */
+	private rowDragEnd = (evt: PointerEvent) => {
+		const { row, target, after, frame } = this.rowDrag;
+
+		cancelAnimationFrame(frame);
+		this.rowDrag = null;
+
+		document.removeEventListener('pointermove', this.rowDragMove);
+		document.removeEventListener('pointerup', this.rowDragEnd);
+		document.removeEventListener('pointercancel', this.rowDragEnd);
+
+		row.removeClass(classes.rowDragging);
+
+		if (!target) return;
+
+		target.removeClass(classes.rowDropBefore, classes.rowDropAfter);
+
+		if (evt.type === 'pointerup') {
+			const from = this.table.rows.indexOf(row);
+			let to = this.table.rows.indexOf(target) + (after ? 1 : 0);
+
+			// Removing the row first moves the rows after it one index up.
+			if (from < to) {
+				to--;
+			}
+
+			this.moveRow(from, to);
+		}
+	};
+
+	/**
+	 * moveGrabbedRow
+	 *
+	 * Move the grabbed table row past the displayed row before or after it, continuing on the next page if necessary.
+	 *
+	 * @param {number} step Either `-1` to move up or `1` to move down
+	 * @private
+	 * @memberof MDFTableRowReorder
+	 * @since 1.1.0
+	 */
+	private moveGrabbedRow = (step: number) => {
+		const row = this.grabbedRow.row;
+		const rows = this.host.getViewRows();
+		const neighbour = rows[rows.indexOf(row) + step];
+
+		if (neighbour) {
+			this.grabbedRow.moving = true;
+			this.host.placeRow(row, this.table.rows.indexOf(neighbour));
+			this.revealRow(row);
+			this.grabbedRow.moving = false;
+		}
+
+		this.announceReorder('moved', row);
+	};
+
+	/**
+	 * releaseRow
+	 *
+	 * Drop the grabbed table row at its current position or, if canceled, return it to where it was grabbed.
+	 *
+	 * @param {boolean} cancel Wether or not to return the row
+	 * @private
+	 * @memberof MDFTableRowReorder
+	 * @since 1.1.0
+	 */
+	private releaseRow = (cancel: boolean) => {
+		const { row, from } = this.grabbedRow;
+
+		if (cancel && this.table.rows.indexOf(row) !== from) {
+			this.grabbedRow.moving = true;
+			this.host.placeRow(row, from);
+			this.revealRow(row);
+		}
+
+		this.grabbedRow = null;
+
+		row.removeClass(classes.rowDragging);
+		row.querySelector(selectors.dragHandle).setAttribute(attr.pressed, 'false');
+
+		this.announceReorder(cancel ? 'canceled' : 'dropped', row);
+
+		const to = this.table.rows.indexOf(row);
+
+		if (to !== from) {
+			this.dispatchReordered(row, from, to);
+		}
+	};
+
+	/**
+	 * revealRow
+	 *
+	 * Display the page or, with virtual rendering, scroll to the table row moved by keyboard and focus its handle again.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @private
+	 * @memberof MDFTableRowReorder
+	 * @since 1.1.0
+	 */
+	private revealRow = (row: HTMLTableRowElement) => {
+		const { options, pagination } = this.table;
+		const index = this.host.getViewRows().indexOf(row);
+
+		if (options.paginate && pagination) {
+			const page = Math.floor(index / this.host.getPageLimit()) + 1;
+
+			if (page !== this.table.getCurrentPage()) {
+				this.host.showPage(page);
+			}
+		} else if (options.virtualize) {
+			this.host.scrollToRow(index);
+		}
+
+		const handle: HTMLElement = row.querySelector(selectors.dragHandle);
+
+		if (handle && handle !== document.activeElement) {
+			handle.focus();
+		}
+	};
+
+	/**
+	 * announceReorder
+	 *
+	 * Let assistive technologies know about the position of the table row reordered by keyboard.
+	 *
+	 * @param {string} action Either `grabbed`, `moved`, `dropped` or `canceled`
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @private
+	 * @memberof MDFTableRowReorder
+	 * @since 1.1.0
+	 */
+	private announceReorder = (action: MDFTableReorderStatus['action'], row: HTMLTableRowElement) => {
+		const rows = this.host.getViewRows();
+		const status: MDFTableReorderStatus = { action, position: rows.indexOf(row) + 1, total: rows.length };
+
+		this.liveRegion.textContent = this.table.options.reorderFormatter
+			? this.table.options.reorderFormatter(status)
+			: formatReorderStatus(status);
+	};
+
+	/**
+	 * reorderOnKeydown
+	 *
+	 * Grab a table row by pressing [Space] or [Enter] on its drag handle, move it using the up and down arrows
+	 * and drop it by pressing [Space] or [Enter] again. [Escape] returns the row to where it was grabbed.
+	 *
+	 * @private
+	 * @memberof MDFTableRowReorder
+	 * @since 1.1.0
+	 */
+	private reorderOnKeydown = (evt: KeyboardEvent) => {
+		const handle = (evt.target as HTMLElement).closest(selectors.dragHandle);
+
+		if (!handle) return;
+
+		if (!this.grabbedRow) {
+			if (evt.key !== ' ' && evt.key !== 'Enter') return;
+
+			this.grabRow(handle.closest('tr'));
+		} else {
+			switch (evt.key) {
+				case 'ArrowUp':
+					this.moveGrabbedRow(-1);
+					break;
+				case 'ArrowDown':
+					this.moveGrabbedRow(1);
+					break;
+				case ' ':
+				case 'Enter':
+					this.releaseRow(false);
+					break;
+				case 'Escape':
+					this.releaseRow(true);
+					break;
+				default:
+					return;
+			}
+		}
+
+		evt.preventDefault();
+	};
+
+	/**
+	 * reorderOnFocusOut
+	 *
+	 * Drop the grabbed table row once its drag handle loses focus, e.g. when pressing [Tab].
+	 *
+	 * @private
+	 * @memberof MDFTableRowReorder
+	 * @since 1.1.0
+	 */
+	private reorderOnFocusOut = (evt: FocusEvent) => {
+		// Moving the row removes its focus for a moment.
+		if (!this.grabbedRow || this.grabbedRow.moving) return;
+
+		const handle = this.grabbedRow.row.querySelector(selectors.dragHandle);
+
+		if (evt.target === handle && evt.relatedTarget !== handle) {
+			this.releaseRow(false);
+		}
+	};
+}
@@ -0,0 +1,603 @@
+import { isRTL } from '@miraidesigns/utils';
+import { attr, classes, events, selectors } from './constants';
+import { MDFTable } from './mdf-table';
+import { MDFTableLoadErrorEvent, MDFTableRecord, MDFTableTreeToggledEvent } from './types';
+
+/**
+ * Tree
+ *
+ * Display the rows of a table as a tree grid using the key of their parent row and load child rows on demand.
+ *
+ * @version 1.1.0
+ */
+
+/**
+ * The parts of the table the tree needs besides its public methods.
+ */
+export interface MDFTableTreeHost {
+	getCell: (row: HTMLTableRowElement, column: number) => HTMLTableCellElement;
+	getColumnIndex: (cell: HTMLTableCellElement) => number;
+	getControlsCell: (row: HTMLTableRowElement) => HTMLTableCellElement;
+	getGridRows: () => HTMLTableRowElement[];
+	getRowKey: (row: HTMLTableRowElement) => string;
+	nodesToggled: () => void;
+	setActiveCell: (cell: HTMLTableCellElement, focus: boolean) => void;
+}
+
+/**
+ * MDFTableTree
+ *
+ * Expand and collapse the rows of a tree table using their toggles or the arrow keys.
+ * Rows the filter matches keep their ancestors, which are expanded until the filter changes.
+ *
+ * @export
+ * @class MDFTableTree
+ * @version 1.1.0
+ */
+export class MDFTableTree {
+	private expandedNodes: Set<string>;
+	private filterExpandedNodes: Set<string>;
+	private readonly host: MDFTableTreeHost;
+	private loadingNodes: Set<string>;
+	private readonly table: MDFTable;
+
+	/**
+	 * Creates an instance of MDFTableTree.
+	 *
+	 * @param {MDFTable} table The table holding the rows
+	 * @param {MDFTableTreeHost} host The parts of the table we need besides its public methods
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	constructor(table: MDFTable, host: MDFTableTreeHost) {
+		this.table = table;
+		this.host = host;
+
+		// We keep track of the expanded rows by key and of the rows loading their children.
+		// Rows expanded to display the rows matching the filter are tracked apart from the ones the user expanded.
+		this.expandedNodes = new Set();
+		this.filterExpandedNodes = new Set();
+		this.loadingNodes = new Set();
+	}
+
+	/**
+	 * setup
+	 *
+	 * Turn the table into a tree grid.
+	 *
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	public setup = (): void => {
+		this.table.table.setAttribute(attr.role, 'treegrid');
+		this.update();
+	};
+
+	/**
+	 * parseTreeMarkup
+	 *
+	 * Read the tree from the markup. Rows declared with a level but without a parent belong to the closest row above them
+	 * with a lower level, rows declared as expanded start out expanded.
+	 *
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	public parseTreeMarkup = (): void => {
+		// The keys of the closest rows above, by level.
+		const ancestors: string[] = [];
+
+		for (const row of this.table.rows) {
+			const key = this.host.getRowKey(row);
+			const level = Math.max(parseInt(row.getAttribute(attr.level), 10) || 1, 1);
+
+			if (!row.hasAttribute(attr.parentId) && level > 1 && ancestors[level - 2]) {
+				row.setAttribute(attr.parentId, ancestors[level - 2]);
+			}
+
+			ancestors[level - 1] = key;
+			ancestors.length = level;
+
+			if (row.getAttribute(attr.expanded) === 'true') {
+				this.expandedNodes.add(key);
+			}
+		}
+	};
+
+	/**
+	 * assignParentKey
+	 *
+	 * Store the key of the parent row and wether or not the row has children that still need to be loaded.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @param {MDFTableRecord} record The data record of the row
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	public assignParentKey = (row: HTMLTableRowElement, record: MDFTableRecord): void => {
+		const parent: unknown = record[this.table.options.parentKey];
+
+		if (parent !== null && parent !== undefined) {
+			row.setAttribute(attr.parentId, String(parent));
+		} else {
+			row.removeAttribute(attr.parentId);
+		}
+
+		if (record[this.table.options.hasChildrenKey]) {
+			row.setAttribute(attr.hasChildren, 'true');
+		} else {
+			row.removeAttribute(attr.hasChildren);
+		}
+	};
+
+	/**
+	 * getTreeRows
+	 *
+	 * Returns the given table rows in tree order, each row followed by the children of expanded rows.
+	 * Siblings keep their sorted order, rows whose parent isn't part of the given rows are displayed at the top level.
+	 *
+	 * @param {HTMLTableRowElement[]} rows The table row elements
+	 * @returns {HTMLTableRowElement[]}
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	public getTreeRows = (rows: HTMLTableRowElement[]): HTMLTableRowElement[] => {
+		const keys = new Set(rows.map(this.host.getRowKey));
+		const children = new Map<string, HTMLTableRowElement[]>();
+
+		// Collect the children of each row, top level rows are stored under `null`.
+		for (const row of rows) {
+			const parent = row.getAttribute(attr.parentId);
+			const key = parent && keys.has(parent) ? parent : null;
+
+			if (!children.has(key)) {
+				children.set(key, []);
+			}
+
+			children.get(key).push(row);
+		}
+
+		const treeRows: HTMLTableRowElement[] = [];
+
+		const addRows = (key: string) => {
+			for (const row of children.has(key) ? children.get(key) : []) {
+				treeRows.push(row);
+
+				// Collapsed rows hide their children.
+				if (this.isNodeExpanded(this.host.getRowKey(row))) {
+					addRows(this.host.getRowKey(row));
+				}
+			}
+		};
+
+		addRows(null);
+
+		return treeRows;
+	};
+
+	/**
+	 * addAncestors
+	 *
+	 * Returns the given table rows and all their ancestors, in the order of the table rows.
+	 * The ancestors are expanded while the table is filtered, so the given rows can be seen.
+	 * They are kept apart from the rows the user expanded, which return once the filter is removed.
+	 *
+	 * @param {HTMLTableRowElement[]} rows The table row elements
+	 * @returns {HTMLTableRowElement[]}
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	public addAncestors = (rows: HTMLTableRowElement[]): HTMLTableRowElement[] => {
+		const rowsByKey = new Map(
+			this.table.rows.map((row): [string, HTMLTableRowElement] => [this.host.getRowKey(row), row])
+		);
+		const result = new Set(rows);
+
+		for (const row of rows) {
+			let parent = rowsByKey.get(row.getAttribute(attr.parentId));
+
+			// Stop once we reach an ancestor we already added, its own ancestors were added with it.
+			while (parent && !result.has(parent)) {
+				result.add(parent);
+				this.filterExpandedNodes.add(this.host.getRowKey(parent));
+				parent = rowsByKey.get(parent.getAttribute(attr.parentId));
+			}
+
+			if (parent) {
+				this.filterExpandedNodes.add(this.host.getRowKey(parent));
+			}
+		}
+
+		return this.table.rows.filter((row) => result.has(row));
+	};
+
+	/**
+	 * resetFilterExpanded
+	 *
+	 * Collapse the rows expanded to display the rows matching the filter, unless the user expanded them.
+	 *
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	public resetFilterExpanded = (): void => {
+		this.filterExpandedNodes = new Set();
+	};
+
+	/**
+	 * update
+	 *
+	 * Set the level and expanded state of every table row and update their toggles.
+	 *
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	public update = (): void => {
+		const rowsByKey = new Map(
+			this.table.rows.map((row): [string, HTMLTableRowElement] => [this.host.getRowKey(row), row])
+		);
+		const parents = new Set(this.table.rows.map((row) => row.getAttribute(attr.parentId)));
+
+		for (const row of this.table.rows) {
+			const key = this.host.getRowKey(row);
+
+			// Count the ancestors of the row, without getting stuck on rows that are their own ancestor.
+			let level = 1;
+			let parent = rowsByKey.get(row.getAttribute(attr.parentId));
+
+			while (parent && level <= this.table.rows.length) {
+				level++;
+				parent = rowsByKey.get(parent.getAttribute(attr.parentId));
+			}
+
+			row.setAttribute(attr.level, level.toString());
+
+			// Rows with children, loaded or not, can be expanded.
+			const expandable = parents.has(key) || row.hasAttribute(attr.hasChildren);
+
+			if (expandable) {
+				row.setAttribute(attr.expanded, this.isNodeExpanded(key).toString());
+			} else {
+				row.removeAttribute(attr.expanded);
+			}
+
+			this.placeTreeToggle(row, expandable);
+		}
+	};
+
+	/**
+	 * placeTreeToggle
+	 *
+	 * Add the tree toggle to the first visible column of a table row. Rows without children receive an empty element
+	 * of the same size, so all rows of a level are indented the same.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @param {boolean} expandable Wether or not the row has children
+	 * @private
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	private placeTreeToggle = (row: HTMLTableRowElement, expandable: boolean) => {
+		const cell = this.host.getControlsCell(row);
+
+		if (!cell) return;
+
+		let toggle: HTMLElement = row.querySelector(selectors.treeToggle);
+
+		// Rows can gain or lose their children, e.g. once they are loaded.
+		if (toggle && toggle.hasClass(classes.treeToggleLeaf) === expandable) {
+			toggle.remove();
+			toggle = null;
+		}
+
+		if (!toggle && expandable) {
+			toggle = document.createElement('button');
+			toggle.setAttribute('type', 'button');
+			toggle.addClass(classes.treeToggle);
+			toggle.setAttribute(attr.label, this.table.options.treeLabel);
+
+			// Interactive grids focus the cell instead, the arrow keys and [Enter] toggle the row from there.
+			if (this.table.options.interactive) {
+				toggle.tabIndex = -1;
+			}
+		} else if (!toggle) {
+			toggle = document.createElement('span');
+			toggle.addClass(classes.treeToggle, classes.treeToggleLeaf);
+			toggle.setAttribute(attr.hidden, 'true');
+		}
+
+		if (expandable) {
+			toggle.setAttribute(attr.expanded, this.isNodeExpanded(this.host.getRowKey(row)).toString());
+		}
+
+		// Moving the toggle would remove its focus.
+		if (cell.firstChild !== toggle) {
+			cell.insertBefore(toggle, cell.firstChild);
+		}
+	};
+
+	/**
+	 * toggleNode
+	 *
+	 * Expand or collapse the child rows of the table row with the given key.
+	 * Rows whose children haven't been loaded yet load them first, using the `childLoader`.
+	 *
+	 * @param {string} key The row key
+	 * @param {boolean} [expanded] Force the given state instead of toggling it
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	public toggleNode = (key: string, expanded?: boolean): void => {
+		const row = this.table.rows.find((item) => this.host.getRowKey(item) === key);
+
+		// Don't continue if the row doesn't exist or has no children.
+		if (!row || !row.hasAttribute(attr.expanded)) return;
+
+		const expand = expanded === undefined ? !this.isNodeExpanded(key) : expanded;
+
+		// Rows expand once their children are loaded.
+		// Loaded records are rendered using the columns, without them the row stays collapsed and can try again later.
+		if (expand && row.hasAttribute(attr.hasChildren) && this.table.options.childLoader) {
+			if (this.table.options.columns) {
+				void this.loadChildren(row);
+			}
+
+			return;
+		}
+
+		this.setNodeExpanded(row, expand);
+		this.host.nodesToggled();
+
+		this.dispatchTreeToggled(row);
+	};
+
+	/**
+	 * expandAllNodes
+	 *
+	 * Expand every table row that has children. Rows whose children haven't been loaded yet stay collapsed.
+	 *
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	public expandAllNodes = (): void => {
+		for (const row of this.table.rows) {
+			if (row.hasAttribute(attr.expanded) && !row.hasAttribute(attr.hasChildren)) {
+				this.setNodeExpanded(row, true);
+			}
+		}
+
+		this.host.nodesToggled();
+	};
+
+	/**
+	 * collapseAllNodes
+	 *
+	 * Collapse every table row that has children.
+	 *
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	public collapseAllNodes = (): void => {
+		for (const row of this.table.rows) {
+			if (row.hasAttribute(attr.expanded)) {
+				this.setNodeExpanded(row, false);
+			}
+		}
+
+		this.host.nodesToggled();
+	};
+
+	/**
+	 * setNodeExpanded
+	 *
+	 * Set the expanded state of a tree row and its toggle.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @param {boolean} expanded Wether or not the child rows are displayed
+	 * @private
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	private setNodeExpanded = (row: HTMLTableRowElement, expanded: boolean) => {
+		if (expanded) {
+			this.expandedNodes.add(this.host.getRowKey(row));
+		} else {
+			// Rows expanded by the filter can be collapsed as well.
+			this.expandedNodes.delete(this.host.getRowKey(row));
+			this.filterExpandedNodes.delete(this.host.getRowKey(row));
+		}
+
+		// Let assistive technologies know about the new state.
+		row.setAttribute(attr.expanded, expanded.toString());
+
+		const toggle = row.querySelector(selectors.treeToggle);
+
+		if (toggle && !toggle.hasClass(classes.treeToggleLeaf)) {
+			toggle.setAttribute(attr.expanded, expanded.toString());
+		}
+	};
+
+	/**
+	 * isNodeExpanded
+	 *
+	 * Wether or not the child rows of the table row with the given key are displayed,
+	 * either because the user expanded it or because the filter matched one of its descendants.
+	 *
+	 * @param {string} key The row key
+	 * @returns {boolean}
+	 * @private
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	private isNodeExpanded = (key: string): boolean => {
+		return this.expandedNodes.has(key) || this.filterExpandedNodes.has(key);
+	};
+
+	/**
+	 * dispatchTreeToggled
+	 *
+	 * Dispatch custom event with the key of a tree row, its table row element and its new state.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @private
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	private dispatchTreeToggled = (row: HTMLTableRowElement) => {
+		this.table.body.dispatchEvent(
+			new CustomEvent<MDFTableTreeToggledEvent>(events.treeToggled, {
+				bubbles: true,
+				detail: {
+					key: this.host.getRowKey(row),
+					row,
+					expanded: this.isNodeExpanded(this.host.getRowKey(row)),
+				},
+			})
+		);
+	};
+
+	/**
+	 * loadChildren
+	 *
+	 * Load the child rows of a table row using the `childLoader` and expand it.
+	 * Children without a parent key belong to the row that loaded them.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @returns {Promise<void>}
+	 * @private
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	private loadChildren = async (row: HTMLTableRowElement): Promise<void> => {
+		const key = this.host.getRowKey(row);
+
+		// Don't load the same children twice.
+		if (this.loadingNodes.has(key)) return;
+
+		this.loadingNodes.add(key);
+		row.setAttribute(attr.busy, 'true');
+
+		try {
+			const records = await this.table.options.childLoader(this.table.getRowData(row), row);
+
+			// The row might have been removed in the meantime.
+			if (!this.table.rows.includes(row)) return;
+
+			// Rows without children can't be expanded anymore.
+			row.removeAttribute(attr.hasChildren);
+			this.setNodeExpanded(row, true);
+
+			this.table.addRows(
+				records.map((record) =>
+					record[this.table.options.parentKey] === undefined || record[this.table.options.parentKey] === null
+						? Object.assign({}, record, { [this.table.options.parentKey]: key })
+						: record
+				)
+			);
+
+			this.dispatchTreeToggled(row);
+		} catch (error: unknown) {
+			// Dispatch custom event with the current page, the error and the row.
+			this.table.body.dispatchEvent(
+				new CustomEvent<MDFTableLoadErrorEvent>(events.loadError, {
+					bubbles: true,
+					detail: {
+						page: this.table.getCurrentPage(),
+						error,
+						row,
+					},
+				})
+			);
+		} finally {
+			this.loadingNodes.delete(key);
+			row.removeAttribute(attr.busy);
+		}
+	};
+
+	/**
+	 * treeKeydown
+	 *
+	 * Expand or collapse a tree row using the arrow keys while the cell holding its toggle is focused.
+	 * Collapsing a row that is already collapsed moves the focus to its parent row.
+	 *
+	 * @param {HTMLTableCellElement} cell The focused cell
+	 * @param {boolean} expand Wether the arrow points towards the end of the line
+	 * @returns {boolean} Wether or not the key was handled
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	public treeKeydown = (cell: HTMLTableCellElement, expand: boolean): boolean => {
+		const row = cell.parentElement as HTMLTableRowElement;
+
+		// Only the cell holding the toggle of a table row.
+		if (!this.table.rows.includes(row) || !cell.querySelector(selectors.treeToggle)) return false;
+
+		const key = this.host.getRowKey(row);
+
+		if (row.hasAttribute(attr.expanded) && this.isNodeExpanded(key) !== expand) {
+			this.toggleNode(key, expand);
+			return true;
+		}
+
+		const parent = expand
+			? null
+			: this.table.rows.find((item) => this.host.getRowKey(item) === row.getAttribute(attr.parentId));
+
+		if (parent && this.host.getGridRows().includes(parent)) {
+			this.host.setActiveCell(this.host.getCell(parent, this.host.getColumnIndex(cell)), true);
+			return true;
+		}
+
+		return false;
+	};
+
+	/**
+	 * addEvents
+	 *
+	 * Expand and collapse tree rows using their toggles.
+	 *
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	public addEvents = (): void => {
+		this.table.body.addEventListener('click', this.treeOnClick);
+		this.table.body.addEventListener('keydown', this.treeOnKeydown);
+	};
+
+	/**
+	 * treeOnClick
+	 *
+	 * Expand or collapse a tree row by clicking its toggle.
+	 *
+	 * @private
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	private treeOnClick = (evt: MouseEvent) => {
+		const toggle = (evt.target as HTMLElement).closest(selectors.treeToggle);
+
+		if (toggle && this.table.body.contains(toggle)) {
+			this.toggleNode(this.host.getRowKey(toggle.closest(selectors.row)));
+		}
+	};
+
+	/**
+	 * treeOnKeydown
+	 *
+	 * Expand or collapse a tree row using the arrow keys while its toggle is focused.
+	 *
+	 * @private
+	 * @memberof MDFTableTree
+	 * @since 1.1.0
+	 */
+	private treeOnKeydown = (evt: KeyboardEvent) => {
+		const toggle = (evt.target as HTMLElement).closest(selectors.treeToggle);
+
+		if (!toggle || (evt.key !== 'ArrowRight' && evt.key !== 'ArrowLeft')) return;
+
+		evt.preventDefault();
+
+		// The arrow pointing towards the end of the line expands the row, which is to the left for RTL layouts.
+		const expand = (evt.key === 'ArrowRight') !== isRTL();
+
+		this.toggleNode(this.host.getRowKey(toggle.closest(selectors.row)), expand);
+	};
+}
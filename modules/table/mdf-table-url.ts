@@ -0,0 +1,441 @@
+import { MDFTable } from './mdf-table';
+import { compileFilter, hasFilterOperator } from './mdf-table-filters';
+import { MDFTableFilter, MDFTableFilterModel, MDFTableSortEntry, MDFTableUrlState } from './types';
+
+/**
+ * URL state
+ *
+ * Keeps the sort, filter and page state of a table inside the query string or hash of the URL.
+ *
+ * @version 1.1.0
+ */
+
+/**
+ * getParamName
+ *
+ * Returns the name of a URL parameter, prefixed with the namespace of the table.
+ *
+ * @param {string} name Name of the parameter
+ * @param {string} namespace Namespace of the table, if any
+ * @returns {string}
+ */
+function getParamName(name: string, namespace: string): string {
+	return namespace ? `${namespace}-${name}` : name;
+}
+
+/**
+ * getParams
+ *
+ * Returns the parameters of the given URL, the hash is read like a query string.
+ *
+ * @param {URL} url The URL to read
+ * @param {string} mode Either `query` or `hash`
+ * @returns {URLSearchParams}
+ */
+function getParams(url: URL, mode: string): URLSearchParams {
+	return new URLSearchParams(mode === 'hash' ? url.hash.slice(1) : url.search);
+}
+
+/**
+ * toPositiveInteger
+ *
+ * Convert a parameter to a positive integer. Anything else returns `null`.
+ *
+ * @param {string} value The parameter value
+ * @returns {number}
+ */
+function toPositiveInteger(value: string): number {
+	const number = value ? parseInt(value, 10) : NaN;
+
+	return number > 0 ? number : null;
+}
+
+/**
+ * serializeSort
+ *
+ * Convert a sort stack to text, e.g. `2:desc,0:asc`. Empty stacks return an empty string.
+ *
+ * @export
+ * @param {MDFTableSortEntry[]} stack The sort stack
+ * @returns {string}
+ * @version 1.1.0
+ */
+export function serializeSort(stack: MDFTableSortEntry[]): string {
+	if (!stack) return '';
+
+	return stack.map((entry) => `${entry.column}:${entry.direction === 'DESC' ? 'desc' : 'asc'}`).join(',');
+}
+
+/**
+ * parseSort
+ *
+ * Convert text created by `serializeSort` back to a sort stack. Invalid entries are left out.
+ *
+ * @export
+ * @param {string} value The serialized sort stack
+ * @returns {MDFTableSortEntry[]}
+ * @version 1.1.0
+ */
+export function parseSort(value: string): MDFTableSortEntry[] {
+	if (!value) return [];
+
+	return value
+		.split(',')
+		.map((entry) => {
+			const [column, direction] = entry.split(':');
+
+			return { column: parseInt(column, 10), direction: direction && direction.toUpperCase() === 'DESC' ? 'DESC' : 'ASC' };
+		})
+		.filter((entry) => !isNaN(entry.column) && entry.column >= 0);
+}
+
+/**
+ * serializeFilter
+ *
+ * Convert a filter model to JSON. Models without filters return an empty string.
+ *
+ * @export
+ * @param {MDFTableFilterModel} model The filter model
+ * @returns {string}
+ * @version 1.1.0
+ */
+export function serializeFilter(model: MDFTableFilterModel): string {
+	if (!model || !model.filters || !model.filters.length) return '';
+
+	return JSON.stringify(model);
+}
+
+/**
+ * parseFilter
+ *
+ * Convert JSON created by `serializeFilter` back to a filter model. Invalid JSON returns `null`.
+ *
+ * @export
+ * @param {string} value The serialized filter model
+ * @returns {MDFTableFilterModel}
+ * @version 1.1.0
+ */
+export function parseFilter(value: string): MDFTableFilterModel {
+	if (!value) return null;
+
+	try {
+		const model = JSON.parse(value) as MDFTableFilterModel;
+
+		return model && Array.isArray(model.filters) ? model : null;
+	} catch (error) {
+		return null;
+	}
+}
+
+/**
+ * isValidFilter
+ *
+ * Check if a filter read from the URL can be applied to a table with the given number of columns.
+ *
+ * @param {MDFTableFilter} filter The filter to check
+ * @param {number} columns Number of table columns
+ * @returns {boolean}
+ */
+function isValidFilter(filter: MDFTableFilter, columns: number): boolean {
+	if (!filter || typeof filter !== 'object') return false;
+
+	// Filters without an operator use `contains`.
+	if (filter.operator !== undefined && (typeof filter.operator !== 'string' || !hasFilterOperator(filter.operator))) {
+		return false;
+	}
+
+	// Filters without a column check the whole row.
+	if (
+		filter.column !== undefined &&
+		filter.column !== null &&
+		(!Number.isInteger(filter.column) || filter.column < 0 || filter.column >= columns)
+	) {
+		return false;
+	}
+
+	// Make sure `regex` filters hold a valid pattern.
+	try {
+		compileFilter(filter);
+	} catch (error) {
+		return false;
+	}
+
+	return true;
+}
+
+/**
+ * validateFilter
+ *
+ * Leave out the filters of a filter model that can't be applied to a table with the given number of columns,
+ * e.g. filters of a shared or edited link using unknown operators, missing columns or invalid patterns.
+ * Models without valid filters return `null`.
+ *
+ * @export
+ * @param {MDFTableFilterModel} model The filter model
+ * @param {number} columns Number of table columns
+ * @returns {MDFTableFilterModel}
+ * @version 1.1.0
+ */
+export function validateFilter(model: MDFTableFilterModel, columns: number): MDFTableFilterModel {
+	if (!model || !Array.isArray(model.filters)) return null;
+
+	const filters = model.filters.filter((filter) => isValidFilter(filter, columns));
+
+	if (!filters.length) return null;
+
+	// Unknown logic falls back to `AND`.
+	return typeof model.logic === 'string' ? { filters, logic: model.logic } : { filters };
+}
+
+/**
+ * validateSort
+ *
+ * Leave out the entries of a sort stack that refer to columns a table with the given number of columns doesn't have.
+ * Stacks that only held invalid entries return `null`, empty stacks stay empty.
+ *
+ * @export
+ * @param {MDFTableSortEntry[]} stack The sort stack
+ * @param {number} columns Number of table columns
+ * @returns {MDFTableSortEntry[]}
+ * @version 1.1.0
+ */
+export function validateSort(stack: MDFTableSortEntry[], columns: number): MDFTableSortEntry[] {
+	if (!stack) return null;
+
+	const entries = stack.filter((entry) => entry.column < columns);
+
+	return entries.length || !stack.length ? entries : null;
+}
+
+/**
+ * readUrlState
+ *
+ * Read the table state from the current URL. Missing or invalid parameters are `null`.
+ *
+ * @export
+ * @param {string} mode Either `query` or `hash`
+ * @param {string} namespace Namespace of the table, if any
+ * @returns {MDFTableUrlState}
+ * @version 1.1.0
+ */
+export function readUrlState(mode: string, namespace: string): MDFTableUrlState {
+	const params = getParams(new URL(window.location.href), mode);
+	const sort = params.get(getParamName('sort', namespace));
+
+	return {
+		sort: sort !== null ? parseSort(sort) : null,
+		filter: parseFilter(params.get(getParamName('filter', namespace))),
+		page: toPositiveInteger(params.get(getParamName('page', namespace))),
+		limit: toPositiveInteger(params.get(getParamName('limit', namespace))),
+	};
+}
+
+/**
+ * writeUrlState
+ *
+ * Store the table state inside the URL, leaving the parameters of other tables alone.
+ * `null` values remove their parameter. Unchanged URLs don't create a new history entry.
+ *
+ * @export
+ * @param {MDFTableUrlState} state The table state
+ * @param {string} mode Either `query` or `hash`
+ * @param {string} namespace Namespace of the table, if any
+ * @param {boolean} replace Wether to replace the current history entry instead of adding a new one
+ * @version 1.1.0
+ */
+export function writeUrlState(state: MDFTableUrlState, mode: string, namespace: string, replace: boolean): void {
+	const url = new URL(window.location.href);
+	const params = getParams(url, mode);
+
+	const values: Record<string, string> = {
+		sort: serializeSort(state.sort),
+		filter: serializeFilter(state.filter),
+		page: state.page ? state.page.toString() : '',
+		limit: state.limit ? state.limit.toString() : '',
+	};
+
+	for (const name of Object.keys(values)) {
+		if (values[name]) {
+			params.set(getParamName(name, namespace), values[name]);
+		} else {
+			params.delete(getParamName(name, namespace));
+		}
+	}
+
+	if (mode === 'hash') {
+		url.hash = params.toString();
+	} else {
+		url.search = params.toString();
+	}
+
+	// Don't continue if nothing changed.
+	if (url.href === window.location.href) return;
+
+	if (replace) {
+		history.replaceState(history.state, '', url.href);
+	} else {
+		history.pushState(history.state, '', url.href);
+	}
+}
+
+/**
+ * The parts of the table the URL sync needs besides its public methods.
+ */
+export interface MDFTableUrlSyncHost {
+	getColumnCount: () => number;
+	getDefaultSort: () => MDFTableSortEntry[];
+	getPageLimit: () => number;
+	showPage: (page: number) => void;
+	updatePaginationSelect: () => void;
+}
+
+/**
+ * MDFTableUrlSync
+ *
+ * Store the sort, filter and page state of a table inside the URL and restore it when navigating the browser history.
+ *
+ * @export
+ * @class MDFTableUrlSync
+ * @version 1.1.0
+ */
+export class MDFTableUrlSync {
+	public restoring: boolean;
+
+	private readonly host: MDFTableUrlSyncHost;
+	private readonly table: MDFTable;
+
+	/**
+	 * Creates an instance of MDFTableUrlSync.
+	 *
+	 * @param {MDFTable} table The table to sync
+	 * @param {MDFTableUrlSyncHost} host The parts of the table we need besides its public methods
+	 * @memberof MDFTableUrlSync
+	 * @since 1.1.0
+	 */
+	constructor(table: MDFTable, host: MDFTableUrlSyncHost) {
+		this.table = table;
+		this.host = host;
+
+		// We don't add history entries while restoring.
+		this.restoring = false;
+	}
+
+	/**
+	 * read
+	 *
+	 * Returns the table state stored inside the URL. Tables share the URL using their namespace, which defaults to the table id.
+	 *
+	 * @returns {MDFTableUrlState}
+	 * @memberof MDFTableUrlSync
+	 * @since 1.1.0
+	 */
+	public read = (): MDFTableUrlState => {
+		const state = readUrlState(this.table.options.urlMode, this.getNamespace());
+
+		// Links can be shared or edited by hand, we only apply sort entries and filters that fit the table.
+		state.sort = validateSort(state.sort, this.host.getColumnCount());
+		state.filter = validateFilter(state.filter, this.host.getColumnCount());
+
+		return state;
+	};
+
+	/**
+	 * update
+	 *
+	 * Store the current sort, filter and page state inside the URL, adding a new history entry.
+	 * Values the table starts with are left out to keep the URL short.
+	 *
+	 * @memberof MDFTableUrlSync
+	 * @since 1.1.0
+	 */
+	public update = (): void => {
+		if (this.restoring) return;
+
+		const { options } = this.table;
+		const sortStack = this.table.getSortStack();
+
+		// The page and its limit only matter for paginated tables.
+		const paginated = options.paginate && this.table.pagination;
+
+		writeUrlState(
+			{
+				sort: serializeSort(sortStack) !== serializeSort(this.host.getDefaultSort()) ? sortStack : null,
+				filter: this.table.getFilterModel(),
+				page: paginated && this.table.getCurrentPage() > 1 ? this.table.getCurrentPage() : null,
+				limit: paginated && this.host.getPageLimit() !== options.itemsPerPage ? this.host.getPageLimit() : null,
+			},
+			options.urlMode,
+			this.getNamespace(),
+			false
+		);
+	};
+
+	/**
+	 * addEvents
+	 *
+	 * Restore the table state when navigating the browser history.
+	 *
+	 * @memberof MDFTableUrlSync
+	 * @since 1.1.0
+	 */
+	public addEvents = (): void => {
+		window.addEventListener('popstate', this.onPopState);
+	};
+
+	/**
+	 * getNamespace
+	 *
+	 * Returns the prefix of the URL parameters of the table.
+	 *
+	 * @returns {string}
+	 * @private
+	 * @memberof MDFTableUrlSync
+	 * @since 1.1.0
+	 */
+	private getNamespace = (): string => {
+		return this.table.options.urlNamespace ? this.table.options.urlNamespace : this.table.options.tableId;
+	};
+
+	/**
+	 * onPopState
+	 *
+	 * Restore the table state stored inside the URL when navigating the browser history.
+	 *
+	 * @private
+	 * @memberof MDFTableUrlSync
+	 * @since 1.1.0
+	 */
+	private onPopState = () => {
+		const state = this.read();
+		const { options } = this.table;
+
+		this.restoring = true;
+
+		// Only apply what changed, parameters that are missing return the table to where it started.
+		const sort = state.sort ? state.sort : this.host.getDefaultSort();
+
+		if (serializeSort(sort) !== serializeSort(this.table.getSortStack())) {
+			this.table.sortBy(sort);
+		}
+
+		if (serializeFilter(state.filter) !== serializeFilter(this.table.getFilterModel())) {
+			this.table.setFilterModel(state.filter);
+		}
+
+		if (options.paginate && this.table.pagination) {
+			const limit = state.limit ? state.limit : options.itemsPerPage;
+			const page = state.page ? state.page : 1;
+
+			if (limit !== this.host.getPageLimit()) {
+				this.table.paginate(limit);
+				this.host.updatePaginationSelect();
+			}
+
+			if (page !== this.table.getCurrentPage()) {
+				this.host.showPage(page);
+			}
+		}
+
+		this.restoring = false;
+	};
+}
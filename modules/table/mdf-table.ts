@@ -3,16 +3,56 @@ import { isRTL } from '@miraidesigns/utils';
 import { MDFCheckbox } from '@miraidesigns/checkbox';
 import { MDFSelect } from '@miraidesigns/select';
 import { attr, classes, events, selectors, strings } from './constants';
-import { MDFTableOptions, MDFTablePaginatedEvent, MDFTableSortedEvent } from './types';
+import { getAggregate } from './mdf-table-aggregates';
+import { compareValues, getColumnType, getSortValue } from './mdf-table-columns';
+import { MDFTableEditor } from './mdf-table-editor';
+import { downloadBlob, getMimeType, serializeDelimited } from './mdf-table-export';
+import { compileFilter, matchesFilter } from './mdf-table-filters';
+import { MDFTableColumnLayout } from './mdf-table-layout';
+import { MDFTableGrouping } from './mdf-table-grouping';
+import { formatStats, getPageItems } from './mdf-table-pagination';
+import { MDFTableRowReorder } from './mdf-table-reorder';
+import { MDFTableTree } from './mdf-table-tree';
+import { MDFTableUrlSync } from './mdf-table-url';
+import {
+	MDFTableAggregate,
+	MDFTableColumn,
+	MDFTableColumnType,
+	MDFTableDataResponse,
+	MDFTableDetailsToggledEvent,
+	MDFTableExportErrorEvent,
+	MDFTableExportOptions,
+	MDFTableFilter,
+	MDFTableFilteredEvent,
+	MDFTableFilterErrorEvent,
+	MDFTableFilterModel,
+	MDFTableGroup,
+	MDFTableGroupedEvent,
+	MDFTableLayout,
+	MDFTableLayoutSwitchedEvent,
+	MDFTableLoadedEvent,
+	MDFTableLoadErrorEvent,
+	MDFTableOptions,
+	MDFTablePaginatedEvent,
+	MDFTablePaginationStats,
+	MDFTableRecord,
+	MDFTableSelectionChangedEvent,
+	MDFTableSortedEvent,
+	MDFTableSortEntry,
+} from './types';
+
+// We use this counter to create unique ids for the detail rows.
+let detailRowCount = 0;
 
 /**
  * MDFTable
  *
  * Allows for manipulation of tabular data such as sorting, filtering and paginating.
+ * Table data can either be supplied as markup or rendered from an array of records.
  *
  * @export
  * @class MDFTable
- * @version 1.0.0
+ * @version 1.1.0
  */
 export class MDFTable {
 	public readonly body: HTMLTableSectionElement;
@@ -23,21 +63,60 @@ export class MDFTable {
 	public readonly rows: HTMLTableRowElement[];
 	public readonly table: HTMLTableElement;
 
+	private activeCell: HTMLTableCellElement;
+	private aggregates: MDFTableAggregate[];
+	private cardLayout: boolean;
 	private currPage: number;
+	private data: MDFTableRecord[];
 	private defaults: MDFTableOptions;
+	private detailRows: Map<HTMLTableRowElement, HTMLTableRowElement>;
+	private headerObserver: ResizeObserver;
 	private headers: NodeListOf<HTMLTableCellElement>;
 	private checkboxes: NodeListOf<HTMLInputElement>;
 	private checkboxHeader: MDFCheckbox;
+	private columnLayout: MDFTableColumnLayout;
+	private columnTypes: Map<number, MDFTableColumnType>;
+	private editor: MDFTableEditor;
+	private expandedRows: Set<string>;
 	private filteredRows: HTMLTableRowElement[];
+	private filterModel: MDFTableFilterModel;
+	private filters: MDFTableFilter[];
+	private footerRow: HTMLTableRowElement;
+	private frozenCells: Map<number, { side: string; offset: number; edge: boolean }>;
+	private frame: number;
+	private grouping: MDFTableGrouping;
 	private itemsPerPage: number;
-	private isSorted: boolean;
+	private messageRow: HTMLTableRowElement;
+	private pageCache: Map<number, MDFTableDataResponse>;
 	private pages: number;
 	private paginationPrev: HTMLElement;
 	private paginationNext: HTMLElement;
+	private paginationFirst: HTMLElement;
+	private paginationLast: HTMLElement;
+	private paginationPages: HTMLElement;
+	private paginationJump: HTMLInputElement;
 	private paginationStats: HTMLElement;
 	private paginationSelect: MDFSelect;
-	private selectedRows: number;
-	private sortASC: boolean;
+	private rowData: Map<HTMLTableRowElement, MDFTableRecord>;
+	private rowOrder: Map<HTMLTableRowElement, number>;
+	private rowOrderCount: number;
+	private rowReorder: MDFTableRowReorder;
+	private request: AbortController;
+	private resizeObserver: ResizeObserver;
+	private rowHeight: number;
+	private excludedKeys: Set<string>;
+	private rangeSelect: boolean;
+	private rowKeyCount: number;
+	private selectAllMatching: boolean;
+	private selection: Set<string>;
+	private selectionAnchor: string;
+	private sortDirections: Map<number, string>;
+	private sortStack: MDFTableSortEntry[];
+	private total: number;
+	private tree: MDFTableTree;
+	private urlSync: MDFTableUrlSync;
+	private viewRows: HTMLTableRowElement[];
+	private virtualStart: number;
 
 	/**
 	 * Creates an instance of Table.
@@ -67,6 +146,7 @@ export class MDFTable {
 			sortOnLoad: false,
 			sortColumn: 0,
 			order: 'ASC',
+			multiSort: true,
 			setAriaCount: false,
 			truncateHeaders: false,
 			headersCharLimit: 0,
@@ -74,38 +154,235 @@ export class MDFTable {
 			itemsPerPage: 50,
 			scrollIntoView: false,
 			savePreferences: false,
+			tableId: null,
+			columns: null,
+			data: [],
+			virtualize: false,
+			rowHeight: 52,
+			overscan: 10,
+			exportFilename: 'table',
+			reorderable: false,
+			resizable: false,
+			minColumnWidth: 48,
+			groupBy: [],
+			aggregates: [],
+			footer: false,
+			footerLabel: 'Total',
+			interactive: false,
+			dataProvider: null,
+			cachePages: true,
+			errorMessage: 'The table data could not be loaded.',
+			rowKey: null,
+			pageSiblings: 1,
+			statsFormatter: null,
+			syncUrl: false,
+			urlMode: 'query',
+			urlNamespace: null,
+			responsive: false,
+			breakpoint: 600,
+			detailTemplate: null,
+			detailLoader: null,
+			detailLabel: 'Details',
+			detailLoadingMessage: 'Loading details...',
+			detailErrorMessage: 'The details could not be loaded.',
+			tree: false,
+			parentKey: 'parentId',
+			hasChildrenKey: 'hasChildren',
+			childLoader: null,
+			treeLabel: 'Child rows',
+			reorderRows: false,
+			reorderLabel: 'Reorder row',
+			reorderFormatter: null,
+			stickyHeader: false,
+			frozenColumns: 0,
+			frozenEndColumns: 0,
 		};
 
 		// Merge defaults with user specified options.
 		this.options = Object.assign({}, this.defaults, options);
 
+		// Preferences are stored per table, we use the container id if no table id was given.
+		if (!this.options.tableId && this.container.id) {
+			this.options.tableId = this.container.id;
+		}
+
 		// Get the table head and body.
 		this.head = this.table.getElementsByTagName('thead')[0];
 		this.body = this.table.getElementsByTagName('tbody')[0];
 
+		// If we render the table data ourselves and the markup holds no table headers, we create them from the columns.
+		if (this.options.columns && !this.head.querySelector(selectors.header)) {
+			this.renderHeaders();
+		}
+
 		// Get a list of available table header elements.
 		this.headers = this.head.querySelectorAll(selectors.header);
 
-		// Create an array of the available table row elements for easier sorting and filtering.
-		this.rows = Array.from(this.body.getElementsByTagName('tr'));
-
 		// Check if we have checkboxes present in the table.
 		this.checkboxes = this.table.querySelectorAll(selectors.checkboxInput);
 
 		// If available, cache the checkbox in the table headers. We will use it later in the script.
-		if (this.checkboxes) {
+		if (this.checkboxes.length) {
 			// Get the header checkbox and initiate it with our `MDFCheckbox` module.
-			this.checkboxHeader = new MDFCheckbox(document.querySelector(selectors.checkbox));
+			this.checkboxHeader = new MDFCheckbox(this.head.querySelector(selectors.checkbox));
+		}
+
+		// The selection is keyed by the `data-row-id` of each row, so it survives sorting, filtering and rendering the rows again.
+		// Remote tables can select all matching rows without knowing their keys, we keep track of the rows deselected afterwards instead.
+		this.selection = new Set();
+		this.excludedKeys = new Set();
+		this.selectAllMatching = false;
+		this.rowKeyCount = 0;
+
+		// We keep track of the order, visibility and width of the table columns.
+		this.columnLayout = new MDFTableColumnLayout(this, {
+			getCheckboxOffset: () => (this.checkboxHeader ? 1 : 0),
+			getHeaders: () => this.headers,
+			getStorageKey: this.getStorageKey,
+			layoutUpdated: this.layoutUpdated,
+		});
+
+		// We keep track of the data record each rendered table row element belongs to.
+		this.rowData = new Map();
+
+		// We keep track of the original position of each table row element, tables that aren't sorted display them in this order.
+		this.rowOrder = new Map();
+		this.rowOrderCount = 0;
+
+		// We keep track of the expanded table rows by their key, detail rows are created once they are displayed.
+		this.expandedRows = new Set();
+		this.detailRows = new Map();
+
+		// If enabled, display the table rows as a tree using the key of their parent row.
+		if (this.options.tree) {
+			this.tree = new MDFTableTree(this, {
+				getCell: this.getCell,
+				getColumnIndex: this.getColumnIndex,
+				// The checkbox column doesn't hold the toggle.
+				getControlsCell: (row: HTMLTableRowElement) => this.getCell(row, this.columnLayout.getVisibleColumns()[0]),
+				getGridRows: this.getGridRows,
+				getRowKey: this.getRowKey,
+				nodesToggled: this.nodesToggled,
+				setActiveCell: this.setActiveCell,
+			});
+		}
+
+		// Column types set through the script take preference over the `data-column-type` attribute.
+		this.columnTypes = new Map();
+
+		// Cells of editable columns can be edited, the edits can be undone and redone.
+		this.editor = new MDFTableEditor(this, {
+			getCell: this.getCell,
+			getColumn: this.getColumn,
+			getColumnIndex: this.getColumnIndex,
+			getHeader: (column: number) => this.headers[column],
+			refresh: this.refresh,
+		});
+
+		// Table rows can be grouped by one or more columns at any time.
+		this.grouping = new MDFTableGrouping(this, {
+			calculateAggregates: this.calculateAggregates,
+			getCell: this.getCell,
+			getCheckboxOffset: () => (this.checkboxHeader ? 1 : 0),
+			getColumnCount: () => this.headers.length,
+			getComparator: this.getComparator,
+			getFilteredRows: () => (this.filteredRows ? this.filteredRows : this.rows),
+			groupsToggled: this.groupsToggled,
+			renderAggregateCells: this.renderAggregateCells,
+			setActiveCell: this.setActiveCell,
+		});
+
+		// If enabled, reorder the table rows using drag handles or the keyboard.
+		if (this.hasDragHandles()) {
+			this.rowReorder = new MDFTableRowReorder(this, {
+				// The checkbox column doesn't hold the handle.
+				getControlsCell: (row: HTMLTableRowElement) => this.getCell(row, this.columnLayout.getVisibleColumns()[0]),
+				getPageLimit: () => this.itemsPerPage,
+				getRowKey: this.getRowKey,
+				getViewRows: this.getViewRows,
+				isGrouped: this.grouping.isGrouped,
+				isTableRow: (row: HTMLTableRowElement) => this.rowOrder.has(row),
+				placeRow: this.placeRow,
+				scrollToRow: this.scrollToRow,
+				showPage: this.showPage,
+			});
+		}
+
+		if (this.options.columns) {
+			// Use the custom comparators and value extractors of our columns.
+			this.options.columns.forEach((column: MDFTableColumn, index: number) => {
+				if (column.comparator || column.extractor) {
+					// The registered type fills in whatever the column doesn't provide.
+					const type = getColumnType(column.type);
+
+					this.setColumnType(index + (this.checkboxHeader ? 1 : 0), {
+						extract: column.extractor ? column.extractor : type.extract,
+						parse: type.parse,
+						compare: column.comparator ? column.comparator : type.compare,
+					});
+				}
+			});
+
+			// Store a copy of the supplied records, the order of this array never changes when sorting.
+			// Remote tables receive their records from the data provider.
+			this.data = this.options.dataProvider ? [] : [...this.options.data];
+
+			// The table row elements will be created from the data records.
+			this.rows = [];
+
+			// Render the table body.
+			this.renderRows(this.data);
+		} else {
+			// Create an array of the available table row elements for easier sorting and filtering.
+			this.rows = Array.from(this.body.getElementsByTagName('tr'));
+
+			for (const row of this.rows) {
+				this.rowOrder.set(row, this.rowOrderCount++);
+			}
+
+			// Make sure each row has a key, rows that are checked in the markup start out selected.
+			for (const row of this.rows) {
+				const key = this.assignRowKey(row, null);
+				const checkbox: HTMLInputElement = row.querySelector(selectors.checkboxInput);
+
+				if (row.hasClass(classes.rowSelected) || (checkbox && checkbox.checked)) {
+					this.selection.add(key);
+				}
+			}
 
-			// We use this variable to keep count of how many rows are selected.
-			this.selectedRows = 0;
+			this.applySelection(this.rows);
+
+			// Let the user know which cells can be edited.
+			this.editor.markEditableCells(this.rows);
+
+			// Tree tables can declare the parent of each row by its level.
+			if (this.tree) {
+				this.tree.parseTreeMarkup();
+			}
+
+			// Rows receive a handle to reorder them and a toggle to expand their details, if enabled.
+			if (this.hasDragHandles() || this.hasDetails()) {
+				for (const row of this.rows) {
+					this.placeRowControls(row);
+				}
+			}
 		}
 
-		// We use this to decide initial sorting and to keep track of sorting order.
-		this.sortASC = this.options.order === 'ASC' ? true : false;
+		// Virtual rendering only keeps some of the table rows in the DOM, assistive technologies rely on the `aria-` attr to know about the others.
+		if (this.options.virtualize) {
+			this.options.setAriaCount = true;
+
+			// The table container becomes the scroll container.
+			this.container.addClass(classes.virtual);
 
-		// Keep track of wether or not the table has been sorted yet.
-		this.isSorted = false;
+			// We use the row height to calculate which rows are visible, it gets updated once we can measure a rendered row.
+			this.rowHeight = this.options.rowHeight;
+		}
+
+		// We keep track of the columns the table is sorted by and their direction. The first entry is the primary column.
+		// Columns remember their last direction once they leave the stack.
+		this.sortStack = [];
+		this.sortDirections = new Map();
 
 		// If enabled, set `aria-rowcount` and `aria-rowindex` for assistive technologies.
 		if (this.options.setAriaCount) {
@@ -118,31 +395,94 @@ export class MDFTable {
 		}
 
 		// If enabled, set the table spacing saved in localStorage.
-		if (this.options.savePreferences && localStorage.getItem(strings.spacing)) {
+		if (this.options.savePreferences && localStorage.getItem(this.getStorageKey(strings.spacing))) {
 			this.applySpacing();
 		}
 
-		// If enabled, sort the table on page load.
-		if (this.options.sortOnLoad) {
-			this.sortColumn(this.options.sortColumn);
+		// Prepare the table headers and the column chooser, then apply the initial column layout.
+		this.columnLayout.setup();
 
-			// Get the header that belongs to the column.
-			const header = this.headers[this.options.sortColumn];
+		// Aggregates summarize the values of a column inside group rows and the footer.
+		this.aggregates = this.options.aggregates ? [...this.options.aggregates] : [];
 
-			// Set the header as active.
-			header.addClass(classes.headerActive);
+		// If set, group the table rows by the given columns.
+		if (this.options.groupBy && this.options.groupBy.length) {
+			this.grouping.setColumns(this.options.groupBy);
 
-			// Add the sorting attr we need.
-			if (this.sortASC) {
-				header.addClass(classes.sortASC);
-				header.setAttribute(attr.sort, 'ascending');
-			} else {
-				header.addClass(classes.sortDESC);
-				header.setAttribute(attr.sort, 'descending');
+			// If enabled, update `aria-rowcount` and `aria-rowindex` to include the group rows.
+			if (this.options.setAriaCount) {
+				this.ariaRowCount();
+			}
+		}
+
+		// If enabled, display the totals of the table columns inside the table footer.
+		if (this.options.footer) {
+			this.updateFooter();
+		}
+
+		// If enabled, turn the table into an interactive grid that can be navigated by keyboard.
+		if (this.options.interactive) {
+			this.setupGrid();
+		}
+
+		// Turn the table into a tree grid.
+		if (this.tree) {
+			this.tree.setup();
+		}
+
+		// If enabled, display the table rows as cards when the table container is narrow.
+		if (this.options.responsive) {
+			this.setupResponsive();
+		}
+
+		// If enabled, keep the table headers and the frozen columns in view while scrolling the table container.
+		if (this.options.stickyHeader || this.options.frozenColumns || this.options.frozenEndColumns) {
+			this.setupFrozenColumns();
+		}
+
+		// If enabled, restore the sort, filter and page state stored inside the URL, e.g. when a link to the table was shared.
+		// We don't update the URL while doing so.
+		if (this.options.syncUrl) {
+			this.urlSync = new MDFTableUrlSync(this, {
+				getColumnCount: () => this.headers.length,
+				getDefaultSort: this.getDefaultSort,
+				getPageLimit: () => this.itemsPerPage,
+				showPage: this.showPage,
+				updatePaginationSelect: () => {
+					if (this.paginationSelect) {
+						this.updatePaginationSelect();
+					}
+				},
+			});
+
+			this.urlSync.restoring = true;
+		}
+
+		const urlState = this.urlSync ? this.urlSync.read() : null;
+
+		if (urlState && urlState.filter) {
+			this.filterModel = urlState.filter;
+			this.filters = this.compileFilters(urlState.filter);
+			this.applyFilter();
+
+			// If enabled, update `aria-rowcount` and `aria-rowindex` to match the filtered rows.
+			if (this.options.setAriaCount) {
+				this.ariaRowCount();
 			}
+		}
+
+		// If enabled, sort the table on page load. The URL takes precedence.
+		if (urlState && urlState.sort) {
+			this.sortBy(urlState.sort);
+		} else if (this.options.sortOnLoad) {
+			this.sortBy(this.getDefaultSort());
+		}
 
-			// Update the table `isSorted` state.
-			this.isSorted = true;
+		// Remote tables load their data page by page from the data provider, we keep the visited pages.
+		if (this.options.dataProvider) {
+			this.pageCache = new Map();
+			this.itemsPerPage = urlState && urlState.limit ? urlState.limit : this.options.itemsPerPage;
+			this.total = 0;
 		}
 
 		// If enabled, paginate the table data.
@@ -172,28 +512,54 @@ export class MDFTable {
 			this.paginationPrev = this.container.querySelector(selectors.paginationPrev);
 			this.paginationNext = this.container.querySelector(selectors.paginationNext);
 
+			// If available, go to the first or last page, list the pages or jump to a page using these elements.
+			this.paginationFirst = this.container.querySelector(selectors.paginationFirst);
+			this.paginationLast = this.container.querySelector(selectors.paginationLast);
+			this.paginationPages = this.container.querySelector(selectors.paginationPages);
+			this.paginationJump = this.container.querySelector(selectors.paginationJump);
+
+			// The page limit stored inside the URL takes precedence.
 			// If available, get the stored user preference for the page limit, otherwise use the value set in options.
-			this.itemsPerPage = localStorage.getItem(strings.itemsPerPage)
-				? +localStorage.getItem(strings.itemsPerPage)
-				: this.options.itemsPerPage;
+			if (urlState && urlState.limit) {
+				this.itemsPerPage = urlState.limit;
+			} else {
+				this.itemsPerPage = localStorage.getItem(this.getStorageKey(strings.itemsPerPage))
+					? +localStorage.getItem(this.getStorageKey(strings.itemsPerPage))
+					: this.options.itemsPerPage;
+			}
 
 			// Make sure the select element exists.
 			if (this.container.querySelector(selectors.paginationSelect)) {
 				// Create a new instance of our MDFSelect class.
 				this.paginationSelect = new MDFSelect(this.container.querySelector(selectors.paginationSelect));
 
-				// Update the displayed text and value.
-				this.paginationSelect.text = this.itemsPerPage.toString();
-				this.paginationSelect.value = this.itemsPerPage.toString();
-
-				// Set the corresponding element as selected.
-				this.paginationSelect.setSelectedElem(
-					document.querySelector(`${selectors.paginationSelect} [data-value="${this.itemsPerPage}"]`)
-				);
+				this.updatePaginationSelect();
 			}
 
 			// Paginate the table data.
 			this.paginate(this.itemsPerPage);
+
+			// Continue on the page stored inside the URL.
+			if (urlState && urlState.page > 1) {
+				this.showPage(urlState.page);
+			}
+		}
+
+		if (this.urlSync) {
+			this.urlSync.restoring = false;
+		}
+
+		// Pagination already took care of it, otherwise render the first window of virtual rows, the tree, the group rows or the filtered rows.
+		if (
+			(this.options.virtualize || this.options.tree || this.grouping.isGrouped() || this.filteredRows) &&
+			!this.viewRows
+		) {
+			this.displayRows(this.getViewRows());
+		}
+
+		// Pagination already requested the first page of remote tables, otherwise we request it now.
+		if (this.options.dataProvider && !this.request) {
+			void this.loadPage(1);
 		}
 
 		// Add event listeners.
@@ -210,7 +576,93 @@ export class MDFTable {
 	 * @since 1.0.0
 	 */
 	public getSelectedRows = (): HTMLTableRowElement[] => {
-		return Array.from(this.table.querySelectorAll(selectors.selectedRows));
+		// We look through our array instead of the DOM, virtual rendering might have removed selected rows from it.
+		return this.rows.filter((row) => row.hasClass(classes.rowSelected));
+	};
+
+	/**
+	 * getSelectedKeys
+	 *
+	 * Returns the keys (`data-row-id`) of all selected table rows, including rows that are filtered out or on another page.
+	 *
+	 * @returns {string[]}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public getSelectedKeys = (): string[] => {
+		return Array.from(this.selection);
+	};
+
+	/**
+	 * selectRows
+	 *
+	 * Select the table rows with the given keys. Rows that aren't rendered yet are selected once they are.
+	 *
+	 * @param {string[]} keys Keys (`data-row-id`) of the rows to select
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public selectRows = (keys: string[]): void => {
+		this.setSelected(keys.map(String), true);
+	};
+
+	/**
+	 * deselectRows
+	 *
+	 * Deselect the table rows with the given keys.
+	 *
+	 * @param {string[]} keys Keys (`data-row-id`) of the rows to deselect
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public deselectRows = (keys: string[]): void => {
+		this.setSelected(keys.map(String), false);
+	};
+
+	/**
+	 * selectAll
+	 *
+	 * Select all table rows matching the current filter model, including the rows on other pages.
+	 * Remote tables also select the rows of pages that haven't been loaded yet.
+	 *
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public selectAll = (): void => {
+		if (this.options.dataProvider) {
+			this.selectAllMatching = true;
+			this.excludedKeys.clear();
+		}
+
+		this.setSelected(this.getMatchingKeys(), true);
+	};
+
+	/**
+	 * clearSelection
+	 *
+	 * Deselect all table rows.
+	 *
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public clearSelection = (): void => {
+		this.selectAllMatching = false;
+		this.excludedKeys.clear();
+
+		this.setSelected(Array.from(this.selection), false);
+	};
+
+	/**
+	 * getSelectionCount
+	 *
+	 * Returns the number of selected table rows. Remote tables include the rows of pages that haven't been loaded yet.
+	 *
+	 * @returns {number}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public getSelectionCount = (): number => {
+		return this.selectAllMatching ? Math.max(this.total - this.excludedKeys.size, 0) : this.selection.size;
 	};
 
 	/**
@@ -250,20 +702,34 @@ export class MDFTable {
 	 * @since 1.0.0
 	 */
 	public hasBeenSorted = (): boolean => {
-		return this.isSorted;
+		return this.sortStack.length > 0;
 	};
 
 	/**
 	 * getSortingOrder
 	 *
 	 * Returns the table's sorting order. Either `ASC` or `DESC`.
+	 * When sorted by multiple columns, the order of the primary column is returned.
 	 *
 	 * @returns {string}
 	 * @memberof MDFTable
 	 * @since 1.0.0
 	 */
 	public getSortingOrder = (): string => {
-		return this.sortASC ? 'ASC' : 'DESC';
+		return this.sortStack.length ? this.sortStack[0].direction : this.options.order;
+	};
+
+	/**
+	 * getSortStack
+	 *
+	 * Returns the columns the table is sorted by and their direction, starting with the primary column.
+	 *
+	 * @returns {Array}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public getSortStack = (): MDFTableSortEntry[] => {
+		return this.sortStack.map((entry) => Object.assign({}, entry));
 	};
 
 	/**
@@ -302,674 +768,4176 @@ export class MDFTable {
 	 * @since 1.0.0
 	 */
 	public getItemsPerPage = (): number => {
-		if (localStorage.getItem(strings.itemsPerPage)) {
-			return +localStorage.getItem(strings.itemsPerPage);
+		if (localStorage.getItem(this.getStorageKey(strings.itemsPerPage))) {
+			return +localStorage.getItem(this.getStorageKey(strings.itemsPerPage));
 		} else {
 			return this.itemsPerPage;
 		}
 	};
 
 	/**
-	 * filter
+	 * getData
 	 *
-	 * Filter table with the supplied value.
+	 * Returns an Array of the data records the table was rendered from.
 	 *
-	 * @param {string} value Input value to filter the data by
-	 * @param {number} column Only filter a specific column
+	 * @returns {Array}
 	 * @memberof MDFTable
-	 * @since 1.0.0
+	 * @since 1.1.0
 	 */
-	public filter = (value: string, column?: number): void => {
-		// Create array of filtered results to use in other functions.
-		this.filteredRows = this.rows.filter((el) => {
-			if (column) {
-				return el.cells[column].textContent.toUpperCase().includes(value.toUpperCase());
-			} else {
-				return el.textContent.toUpperCase().includes(value.toUpperCase());
-			}
-		});
-
-		// Hide all table row elements.
-		for (const row of this.rows) {
-			row.hide();
-		}
-
-		// Show the row elements that match the input value.
-		for (const row of this.filteredRows) {
-			row.show();
-		}
+	public getData = (): MDFTableRecord[] => {
+		return this.data ? [...this.data] : [];
 	};
 
 	/**
-	 * toggleSpacing
+	 * getRowData
 	 *
-	 * Toggle between `regular` and `condensed` spacing.
-	 * Optionally, save preference in localStorage.
+	 * Returns the data record the given table row element was rendered from.
 	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @returns {MDFTableRecord}
 	 * @memberof MDFTable
-	 * @since 1.0.0
+	 * @since 1.1.0
 	 */
-	public toggleSpacing = (): void => {
-		// Toggle the `condensed` class.
-		this.container.toggleClass(classes.condensed);
-
-		// If enabled, we will update the user preference in localStorage.
-		if (this.options.savePreferences) {
-			window.addEventListener('unload', () => this.updateSpacing);
-		}
+	public getRowData = (row: HTMLTableRowElement): MDFTableRecord => {
+		return this.rowData.get(row);
 	};
 
 	/**
-	 * paginate
+	 * setData
 	 *
-	 * Paginate table data limiting the number of table rows displayed per page.
-	 *
-	 * @param {number} limit Number of table rows per page
+	 * Replace the table data and render the table body again.
 	 *
+	 * @param {MDFTableRecord[]} data The new data records
 	 * @memberof MDFTable
-	 * @since 1.0.0
+	 * @since 1.1.0
 	 */
-	public paginate = (limit: number): void => {
-		// Update the page limit.
-		this.itemsPerPage = limit;
-
-		// If enabled, we will update the user preference in localStorage.
-		if (this.options.savePreferences) {
-			this.updatePageLimit();
-		}
-
-		// At the beginning, we always make sure that all rows are visible.
-		const rowsToShow = this.filteredRows ? this.filteredRows : this.rows;
-
-		for (const row of rowsToShow) {
-			row.show();
-		}
-
-		// Keep track of what page we are on. We always start on page 1.
-		this.currPage = 1;
-
-		// Total amount of rows available.
-		const rowsTotal = this.filteredRows ? this.filteredRows.length : this.rows.length;
-
-		// Array of row elements that we will hide.
-		const rowsToHide = this.filteredRows
-			? this.filteredRows.slice(this.itemsPerPage)
-			: this.rows.slice(this.itemsPerPage);
-
-		// Total number of pages we have.
-		this.pages = Math.ceil(rowsTotal / this.itemsPerPage);
-
-		if (this.pages > 1) {
-			// The starting and end range of our pagination.
-			const paginateFrom = this.itemsPerPage * (this.currPage - 1);
-			const paginateTo = paginateFrom + this.itemsPerPage;
-
-			// Set the stats text.
-			this.paginationStats.textContent = `${(paginateFrom + 1).toString()}-${paginateTo} of ${rowsTotal}`;
-
-			// Hide the table row elements that move to the next page.
-			for (const row of rowsToHide) {
-				row.hide();
-			}
-
-			// We add the event listeners for our `previous` and `next` actions.
-			this.paginationPrev.addEventListener('click', this.prevPage);
-			this.paginationNext.addEventListener('click', this.nextPage);
-
-			// Disable the `previous` control if we are on the first page.
-			this.paginationPrev.addClass(classes.paginationControlDisabled);
+	public setData = (data: MDFTableRecord[]): void => {
+		// Rendering data is only possible if we know the table columns.
+		if (!this.options.columns) return;
 
-			// And make sure the `next` control is enabled.
-			this.paginationNext.removeClass(classes.paginationControlDisabled);
-		} else {
-			// If we have only one page to display, we simply show all available table row elements.
-			const rowsToShow = this.filteredRows ? this.filteredRows : this.rows;
+		this.replaceRows(data);
 
-			for (const row of rowsToShow) {
-				row.show();
-			}
+		// Make sure sorting, filtering and pagination are applied to the new rows.
+		this.refresh();
+	};
 
-			// Set the stats text.
-			this.paginationStats.textContent = `1-${rowsTotal} of ${rowsTotal}`;
+	/**
+	 * addRows
+	 *
+	 * Add new data records to the table.
+	 *
+	 * @param {MDFTableRecord[]} data The data records to add
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public addRows = (data: MDFTableRecord[]): void => {
+		// Rendering data is only possible if we know the table columns.
+		if (!this.options.columns) return;
 
-			// And we make sure to disable the action elements.
-			this.paginationPrev.addClass('click', classes.paginationControlDisabled);
-			this.paginationNext.addClass('click', classes.paginationControlDisabled);
-		}
+		// Add the records to our data and render them.
+		this.data.push(...data);
+		this.renderRows(data);
 
-		// Dispatch custom event with pagination details.
-		this.pagination.dispatchEvent(
-			new CustomEvent<MDFTablePaginatedEvent>(events.paginated, {
-				bubbles: true,
-				detail: {
-					currPage: this.currPage,
-					items: rowsToShow,
-				},
-			})
-		);
+		// Make sure sorting, filtering and pagination are applied to the new rows.
+		this.refresh();
 	};
 
 	/**
-	 * prevPage
+	 * updateRow
 	 *
-	 * Change to the previous page of table data.
+	 * Update the data record at the given index and render its table row element again.
 	 *
-	 * @private
+	 * @param {number} index Index of the record inside the table data
+	 * @param {MDFTableRecord} changes The values to update
 	 * @memberof MDFTable
-	 * @since 1.0.0
+	 * @since 1.1.0
 	 */
-	private prevPage = () => {
-		// Don't continue if we can't go back any further.
-		if (this.currPage < 2) return;
+	public updateRow = (index: number, changes: MDFTableRecord): void => {
+		// Get the table row element that belongs to the record.
+		const row = this.getRowByIndex(index);
 
-		// Go back to the previous page.
-		--this.currPage;
+		// Don't continue if the record doesn't exist.
+		if (!row) return;
 
-		// The starting and end range of our pagination.
-		const paginateFrom = this.itemsPerPage * (this.currPage - 1);
-		const paginateTo = paginateFrom + this.itemsPerPage;
+		// Create the updated record and keep track of it.
+		const record = Object.assign({}, this.data[index], changes);
+		this.data[index] = record;
+		this.rowData.set(row, record);
 
-		// The table row elements that will be shown for this page.
-		const rowsToShow = this.filteredRows
-			? this.filteredRows.slice(paginateFrom, paginateTo)
-			: this.rows.slice(paginateFrom, paginateTo);
+		// Render the cells again, the row element itself stays the same to keep its selection state.
+		this.renderCells(row, record);
 
-		// Hide all table row elements first.
-		for (const row of this.rows) {
-			row.hide();
-		}
+		// The details are created again from the updated record once they are displayed.
+		this.removeDetailRow(row);
 
-		// Then display the rows we need.
-		for (const row of rowsToShow) {
-			row.show();
+		// The row might have moved to another parent.
+		if (this.tree) {
+			this.tree.assignParentKey(row, record);
 		}
 
-		// Total amount of rows available.
-		const rowsTotal = this.filteredRows ? this.filteredRows.length : this.rows.length;
-
-		// Set the stats text.
-		this.paginationStats.textContent = `${(paginateFrom + 1).toString()}-${paginateTo} of ${rowsTotal}`;
+		// Make sure sorting, filtering and pagination take the new values into account.
+		this.refresh();
+	};
 
-		// Only do this if we landed on the first page.
-		if (this.currPage === 1) {
-			// Disable the `previous` control element.
-			this.paginationPrev.addClass(classes.paginationControlDisabled);
+	/**
+	 * removeRow
+	 *
+	 * Remove the data record at the given index and its table row element.
+	 *
+	 * @param {number} index Index of the record inside the table data
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public removeRow = (index: number): void => {
+		// Get the table row element that belongs to the record.
+		const row = this.getRowByIndex(index);
+
+		// Don't continue if the record doesn't exist.
+		if (!row) return;
+
+		// Remove the record and its table row element.
+		this.data.splice(index, 1);
+		this.rows.splice(this.rows.indexOf(row), 1);
+		this.rowData.delete(row);
+		this.rowOrder.delete(row);
+		this.removeDetailRow(row);
+		this.expandedRows.delete(this.getRowKey(row));
+		row.remove();
+
+		// Removed rows can't stay selected.
+		if (this.selection.has(this.getRowKey(row))) {
+			this.setSelected([this.getRowKey(row)], false);
 		}
 
-		// Make sure the `next` control is enabled.
-		this.paginationNext.removeClass(classes.paginationControlDisabled);
-
-		// If enabled, scroll to the top of the table when selecting a new page.
-		if (this.options.scrollIntoView) {
-			this.container.scrollIntoView({
-				behavior: 'smooth',
-			});
+		// Remove the row from the filtered results as well.
+		if (this.filteredRows && this.filteredRows.includes(row)) {
+			this.filteredRows.splice(this.filteredRows.indexOf(row), 1);
 		}
 
-		// Dispatch custom event with pagination details.
-		this.pagination.dispatchEvent(
-			new CustomEvent<MDFTablePaginatedEvent>(events.paginated, {
-				bubbles: true,
-				detail: {
-					currPage: this.currPage,
-					items: rowsToShow,
-				},
-			})
-		);
+		// Make sure sorting, filtering and pagination are up to date.
+		this.refresh();
 	};
 
 	/**
-	 * nextPage
+	 * setColumnType
 	 *
-	 * Change to the next page of table data.
+	 * Set the column type used to sort the given column.
+	 * Either the name of a registered column type or a custom type with its own extractor, parser and comparator.
 	 *
-	 * @private
+	 * @param {number} column Table column index
+	 * @param {string | MDFTableColumnType} type The column type
 	 * @memberof MDFTable
-	 * @since 1.0.0
+	 * @since 1.1.0
 	 */
-	private nextPage = () => {
-		// Don't continue if we can't go forwards any further.
-		if (this.currPage === this.pages) return;
+	public setColumnType = (column: number, type: string | MDFTableColumnType): void => {
+		this.columnTypes.set(column, typeof type === 'string' ? getColumnType(type) : type);
+	};
+
+	/**
+	 * getColumnType
+	 *
+	 * Returns the column type used to sort the given column.
+	 *
+	 * @param {number} column Table column index
+	 * @returns {MDFTableColumnType}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public getColumnType = (column: number): MDFTableColumnType => {
+		// Column types set through the script take preference.
+		if (this.columnTypes.has(column)) {
+			return this.columnTypes.get(column);
+		}
+
+		// Otherwise we use the type set on the table header element.
+		const header = this.headers[column];
+
+		return getColumnType(header ? header.getAttribute(attr.type) : null);
+	};
+
+	/**
+	 * getCellValue
+	 *
+	 * Returns the parsed value of a table row element's cell, the same value we use for sorting.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @param {number} column Table column index
+	 * @returns {any}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public getCellValue = (row: HTMLTableRowElement, column: number): any => {
+		// Get the column type and the raw value of the cell.
+		const type = this.getColumnType(column);
+		const value = this.getCellText(row, column);
+
+		// Convert it to a value we can compare.
+		return type.parse ? type.parse(value) : value;
+	};
+
+	/**
+	 * getColumnLabel
+	 *
+	 * Returns the label of a table column, the text of its header.
+	 *
+	 * @param {number} column Table column index
+	 * @returns {string}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public getColumnLabel = (column: number): string => {
+		const header = this.headers[column];
+
+		return header ? this.getHeaderLabel(header) : '';
+	};
+
+	/**
+	 * filter
+	 *
+	 * Filter table with the supplied value.
+	 * Shorthand for a filter model with a single `contains` filter.
+	 *
+	 * @param {string} value Input value to filter the data by
+	 * @param {number} column Only filter a specific column
+	 * @memberof MDFTable
+	 * @since 1.0.0
+	 */
+	public filter = (value: string, column?: number): void => {
+		this.setFilterModel({
+			filters: [{ column, operator: 'contains', value }],
+		});
+	};
+
+	/**
+	 * setFilterModel
+	 *
+	 * Filter table with one or more column filters, combined with either `AND` or `OR`.
+	 *
+	 * @param {MDFTableFilterModel} model The filters to apply, `null` removes all filters
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 *
+	 * @example setFilterModel({ filters: [{ column: 2, operator: 'range', value: [10, 100] }], logic: 'AND' })
+	 */
+	public setFilterModel = (model: MDFTableFilterModel): void => {
+		// Remember the filter model, we apply it again whenever the table data changes.
+		this.filterModel = model;
+		this.filters = this.compileFilters(model);
+
+		// Remote tables let the data provider filter, starting on page 1 again.
+		if (this.options.dataProvider) {
+			this.pageCache.clear();
+
+			void this.loadPage(1).then((loaded) => {
+				if (loaded) {
+					this.dispatchFiltered();
+				}
+			});
+
+			return;
+		}
+
+		// Create array of filtered results to use in other functions.
+		this.applyFilter();
+
+		// If enabled, update `aria-rowcount` and `aria-rowindex` to match the filtered rows.
+		if (this.options.setAriaCount) {
+			this.ariaRowCount();
+		}
+
+		if (this.options.paginate && this.pagination) {
+			// Paginate the filtered rows, starting on page 1 again.
+			this.paginate(this.itemsPerPage);
+		} else {
+			// Show the row elements that match the filters.
+			this.displayRows(this.getViewRows());
+		}
+
+		// Make sure the header checkbox reflects the selection of the filtered rows.
+		if (this.checkboxHeader) {
+			this.updateCheckboxHeader();
+		}
+
+		this.dispatchFiltered();
+	};
+
+	/**
+	 * getFilterModel
+	 *
+	 * Returns the filter model currently applied to the table.
+	 *
+	 * @returns {MDFTableFilterModel}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public getFilterModel = (): MDFTableFilterModel => {
+		return this.filterModel;
+	};
+
+	/**
+	 * clearFilter
+	 *
+	 * Remove all filters and display every table row element again.
+	 *
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public clearFilter = (): void => {
+		this.setFilterModel(null);
+	};
+
+	/**
+	 * exportData
+	 *
+	 * Serialize the table data to CSV, TSV or JSON.
+	 * Hidden columns are left out and cells are exported with their raw values.
+	 *
+	 * @param {MDFTableExportOptions} [options] Object holding export options
+	 * @returns {string}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 *
+	 * @example exportData({ format: 'tsv', rows: 'selected' })
+	 */
+	public exportData = (options?: MDFTableExportOptions): string => {
+		const format = options && options.format ? options.format.toLowerCase() : 'csv';
+		const headers = options && options.headers === false ? false : true;
+		const columns = this.getExportColumns();
+		const rows = this.getExportRows(options ? options.rows : null);
+
+		if (format === 'json') {
+			// Create an object for each table row, keyed by the column names.
+			const records = rows.map((row) => {
+				const record: MDFTableRecord = {};
+				const data = this.rowData.get(row);
+
+				for (const column of columns) {
+					// Records we rendered from keep their original values.
+					const value: unknown = data && column.key in data ? data[column.key] : this.getCellText(row, column.index);
+
+					record[column.key] = value;
+				}
+
+				return record;
+			});
+
+			return JSON.stringify(records, null, 2);
+		}
+
+		// Collect the fields of each table row.
+		const fields = rows.map((row) => columns.map((column) => this.getCellText(row, column.index)));
+
+		// Optionally, start with the column labels.
+		if (headers) {
+			fields.unshift(columns.map((column) => column.label));
+		}
+
+		return serializeDelimited(fields, format === 'tsv' ? '\t' : ',');
+	};
+
+	/**
+	 * getExportBlob
+	 *
+	 * Returns the exported table data as a Blob with the proper MIME type.
+	 *
+	 * @param {MDFTableExportOptions} [options] Object holding export options
+	 * @returns {Blob}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public getExportBlob = (options?: MDFTableExportOptions): Blob => {
+		return new Blob([this.exportData(options)], { type: getMimeType(options ? options.format : null) });
+	};
+
+	/**
+	 * download
+	 *
+	 * Export the table data and let the browser download it as a file.
+	 *
+	 * @param {MDFTableExportOptions} [options] Object holding export options
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public download = (options?: MDFTableExportOptions): void => {
+		const format = options && options.format ? options.format.toLowerCase() : 'csv';
+		const filename = options && options.filename ? options.filename : this.options.exportFilename;
+
+		downloadBlob(this.getExportBlob(options), `${filename}.${format}`);
+	};
+
+	/**
+	 * copyToClipboard
+	 *
+	 * Export the table data and copy it to the clipboard.
+	 *
+	 * @param {MDFTableExportOptions} [options] Object holding export options
+	 * @returns {Promise<void>}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public copyToClipboard = async (options?: MDFTableExportOptions): Promise<void> => {
+		const text = this.exportData(options);
+
+		// Use the Clipboard API when available, it requires a secure context.
+		if (navigator.clipboard) {
+			return navigator.clipboard.writeText(text);
+		}
+
+		// Otherwise copy the text from a temporary textarea element.
+		const textarea = document.createElement('textarea');
+		textarea.value = text;
+		textarea.style.position = 'fixed';
+		textarea.style.opacity = '0';
+
+		document.body.appendChild(textarea);
+		textarea.select();
+
+		const copied = document.execCommand('copy');
+
+		document.body.removeChild(textarea);
+
+		if (!copied) {
+			throw new Error('MDFTable: Unable to copy the table data to the clipboard.');
+		}
+	};
+
+	/**
+	 * editCell
+	 *
+	 * Open an editor for the given cell. Editable columns use either an `MDFTextfield` or an `MDFSelect` element.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @param {number} column Table column index
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public editCell = (row: HTMLTableRowElement, column: number): void => {
+		this.editor.editCell(row, column);
+	};
+
+	/**
+	 * undo
+	 *
+	 * Undo the last cell edit.
+	 *
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public undo = (): void => {
+		this.editor.undo();
+	};
+
+	/**
+	 * redo
+	 *
+	 * Redo the last undone cell edit.
+	 *
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public redo = (): void => {
+		this.editor.redo();
+	};
+
+	/**
+	 * canUndo
+	 *
+	 * Returns wether or not there are cell edits to undo.
+	 *
+	 * @returns {boolean}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public canUndo = (): boolean => {
+		return this.editor.canUndo();
+	};
+
+	/**
+	 * canRedo
+	 *
+	 * Returns wether or not there are cell edits to redo.
+	 *
+	 * @returns {boolean}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public canRedo = (): boolean => {
+		return this.editor.canRedo();
+	};
+
+	/**
+	 * setColumnVisible
+	 *
+	 * Show or hide a table column. At least one column always stays visible.
+	 *
+	 * @param {number} column Table column index
+	 * @param {boolean} visible Wether or not the column should be visible
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public setColumnVisible = (column: number, visible: boolean): void => {
+		this.columnLayout.setColumnVisible(column, visible);
+	};
+
+	/**
+	 * isColumnVisible
+	 *
+	 * Returns wether or not the table column is visible.
+	 *
+	 * @param {number} column Table column index
+	 * @returns {boolean}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public isColumnVisible = (column: number): boolean => {
+		return this.columnLayout.isColumnVisible(column);
+	};
+
+	/**
+	 * moveColumn
+	 *
+	 * Move a table column to the given position. The checkbox column always stays first.
+	 *
+	 * @param {number} column Table column index
+	 * @param {number} position The position to display the column at
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public moveColumn = (column: number, position: number): void => {
+		this.columnLayout.moveColumn(column, position);
+	};
+
+	/**
+	 * getColumnOrder
+	 *
+	 * Returns the table column indexes in the order they are displayed.
+	 *
+	 * @returns {number[]}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public getColumnOrder = (): number[] => {
+		return [...this.columnLayout.getOrder()];
+	};
+
+	/**
+	 * setColumnWidth
+	 *
+	 * Set the width of a table column in pixels, `null` lets the browser decide again.
+	 *
+	 * @param {number} column Table column index
+	 * @param {number} width The width in pixels
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public setColumnWidth = (column: number, width: number): void => {
+		this.columnLayout.setColumnWidth(column, width);
+	};
+
+	/**
+	 * getLayout
+	 *
+	 * Returns the order, hidden columns and widths of the table columns.
+	 *
+	 * @returns {MDFTableLayout}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public getLayout = (): MDFTableLayout => {
+		return this.columnLayout.getLayout();
+	};
+
+	/**
+	 * setLayout
+	 *
+	 * Apply the order, hidden columns and widths of the table columns, e.g. a layout returned by `getLayout()`.
+	 *
+	 * @param {MDFTableLayout} layout The column layout
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public setLayout = (layout: MDFTableLayout): void => {
+		this.columnLayout.setLayout(layout);
+	};
+
+	/**
+	 * resetLayout
+	 *
+	 * Display the table columns in their original order, visibility and width again.
+	 *
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public resetLayout = (): void => {
+		this.columnLayout.resetLayout();
+	};
+
+	/**
+	 * groupBy
+	 *
+	 * Group the table rows by one or more columns. The first column creates the top level groups.
+	 * Rows inside each group keep the current sorting, an empty array removes the groups.
+	 *
+	 * @param {number[]} columns Table column indexes to group by
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 *
+	 * @example groupBy([2, 1])
+	 */
+	public groupBy = (columns: number[]): void => {
+		// Create the group rows.
+		this.grouping.setColumns(columns);
+
+		// If enabled, update `aria-rowcount` and `aria-rowindex` to include the group rows.
+		if (this.options.setAriaCount) {
+			this.ariaRowCount();
+		}
+
+		if (this.options.paginate && this.pagination) {
+			// The groups change what each page holds, so we start on page 1 again.
+			this.showPage(1);
+		} else {
+			this.displayRows(this.getViewRows());
+		}
+
+		// Dispatch custom event with the grouped columns and the created groups.
+		this.body.dispatchEvent(
+			new CustomEvent<MDFTableGroupedEvent>(events.grouped, {
+				bubbles: true,
+				detail: {
+					columns: this.getGroupColumns(),
+					groups: this.getGroups(),
+				},
+			})
+		);
+	};
+
+	/**
+	 * getGroupColumns
+	 *
+	 * Returns the table column indexes the table rows are grouped by.
+	 *
+	 * @returns {number[]}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public getGroupColumns = (): number[] => {
+		return this.grouping.getColumns();
+	};
+
+	/**
+	 * getGroups
+	 *
+	 * Returns the top level groups of the table rows, each holding their subgroups.
+	 *
+	 * @returns {MDFTableGroup[]}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public getGroups = (): MDFTableGroup[] => {
+		return this.grouping.getGroups();
+	};
+
+	/**
+	 * toggleGroup
+	 *
+	 * Expand or collapse the group with the given key.
+	 * Group keys are the group values joined by `/`, e.g. `Engineering/Senior`.
+	 *
+	 * @param {string} key The group key
+	 * @param {boolean} [expanded] Wether the group should be expanded, otherwise the group toggles
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public toggleGroup = (key: string, expanded?: boolean): void => {
+		this.grouping.toggleGroup(key, expanded);
+	};
+
+	/**
+	 * expandAllGroups
+	 *
+	 * Expand every group, including subgroups.
+	 *
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public expandAllGroups = (): void => {
+		this.grouping.expandAllGroups();
+	};
+
+	/**
+	 * collapseAllGroups
+	 *
+	 * Collapse every group, including subgroups.
+	 *
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public collapseAllGroups = (): void => {
+		this.grouping.collapseAllGroups();
+	};
+
+	/**
+	 * setAggregates
+	 *
+	 * Set the aggregates displayed inside the group rows and the table footer.
+	 *
+	 * @param {MDFTableAggregate[]} aggregates The columns to summarize and how
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 *
+	 * @example setAggregates([{ column: 3, type: 'sum' }, { column: 4, type: 'avg' }])
+	 */
+	public setAggregates = (aggregates: MDFTableAggregate[]): void => {
+		this.aggregates = aggregates ? [...aggregates] : [];
+
+		// Render the group rows and the footer with the new aggregates.
+		this.grouping.apply();
+		this.updateFooter();
+	};
+
+	/**
+	 * getTotals
+	 *
+	 * Returns the aggregate values of the filtered table rows, keyed by table column index.
+	 *
+	 * @returns {Object}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public getTotals = (): { [column: number]: any } => {
+		return this.calculateAggregates(this.filteredRows ? this.filteredRows : this.rows);
+	};
+
+	/**
+	 * toggleSpacing
+	 *
+	 * Toggle between `regular` and `condensed` spacing.
+	 * Optionally, save preference in localStorage.
+	 *
+	 * @memberof MDFTable
+	 * @since 1.0.0
+	 */
+	public toggleSpacing = (): void => {
+		// Toggle the `condensed` class.
+		this.container.toggleClass(classes.condensed);
+
+		// If enabled, we will update the user preference in localStorage.
+		if (this.options.savePreferences) {
+			this.updateSpacing();
+		}
+	};
+
+	/**
+	 * paginate
+	 *
+	 * Paginate table data limiting the number of table rows displayed per page.
+	 *
+	 * @param {number} limit Number of table rows per page
+	 *
+	 * @memberof MDFTable
+	 * @since 1.0.0
+	 */
+	public paginate = (limit: number): void => {
+		// Update the page limit.
+		this.itemsPerPage = limit;
+
+		// If enabled, we will update the user preference in localStorage.
+		if (this.options.savePreferences) {
+			this.updatePageLimit();
+		}
+
+		// Make sure the `previous` and `next` controls are listening.
+		this.paginationPrev.addEventListener('click', this.prevPage);
+		this.paginationNext.addEventListener('click', this.nextPage);
+
+		// The same goes for the optional pagination controls.
+		if (this.paginationFirst) {
+			this.paginationFirst.addEventListener('click', this.firstPage);
+		}
+
+		if (this.paginationLast) {
+			this.paginationLast.addEventListener('click', this.lastPage);
+		}
+
+		if (this.paginationPages) {
+			this.paginationPages.addEventListener('click', this.pageOnClick);
+		}
+
+		if (this.paginationJump) {
+			this.paginationJump.addEventListener('change', this.jumpOnChange);
+		}
+
+		// Pages of remote tables visited before hold a different number of rows.
+		if (this.pageCache) {
+			this.pageCache.clear();
+		}
+
+		// We always start on page 1.
+		this.showPage(1);
+	};
+
+	/**
+	 * goToPage
+	 *
+	 * Display the given page of table data. Pages that don't exist are limited to the first or last page.
+	 *
+	 * @param {number} page The page to display, starting at 1
+	 *
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public goToPage = (page: number): void => {
+		// Without the pagination element, the table isn't paginated.
+		if (!this.pagination) return;
+
+		this.showPage(page);
+
+		// If enabled, scroll to the top of the table when selecting a new page.
+		if (this.options.scrollIntoView) {
+			this.container.scrollIntoView({
+				behavior: 'smooth',
+			});
+		}
+	};
+
+	/**
+	 * reload
+	 *
+	 * Request the current page from the data provider again, ignoring the pages visited before.
+	 * Only works for tables using the `dataProvider` option.
+	 *
+	 * @returns {Promise<void>}
+	 *
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public reload = async (): Promise<void> => {
+		if (!this.options.dataProvider) return;
+
+		// Forget the visited pages, their data could have changed.
+		this.pageCache.clear();
+
+		await this.loadPage(this.currPage ? this.currPage : 1);
+	};
+
+	/**
+	 * isLoading
+	 *
+	 * Returns wether or not the table is waiting for the data provider.
+	 *
+	 * @returns {boolean}
+	 *
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public isLoading = (): boolean => {
+		return !!this.request;
+	};
+
+	/**
+	 * prevPage
+	 *
+	 * Change to the previous page of table data.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.0.0
+	 */
+	private prevPage = () => {
+		// Don't continue if we can't go back any further.
+		if (this.currPage < 2) return;
+
+		// Go back to the previous page.
+		this.goToPage(this.currPage - 1);
+	};
+
+	/**
+	 * nextPage
+	 *
+	 * Change to the next page of table data.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.0.0
+	 */
+	private nextPage = () => {
+		// Don't continue if we can't go forwards any further.
+		if (this.currPage === this.pages) return;
 
 		// Go forwards to the next page.
-		++this.currPage;
+		this.goToPage(this.currPage + 1);
+	};
+
+	/**
+	 * firstPage
+	 *
+	 * Change to the first page of table data.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private firstPage = () => {
+		// Don't continue if we are already there.
+		if (this.currPage < 2) return;
+
+		this.goToPage(1);
+	};
+
+	/**
+	 * lastPage
+	 *
+	 * Change to the last page of table data.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private lastPage = () => {
+		// Don't continue if we are already there.
+		if (this.currPage === this.pages) return;
+
+		this.goToPage(this.pages);
+	};
+
+	/**
+	 * pageOnClick
+	 *
+	 * Change to the page of the clicked page button.
+	 *
+	 * @param {MouseEvent} evt The click event
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private pageOnClick = (evt: MouseEvent) => {
+		const button: HTMLElement = (evt.target as HTMLElement).closest(selectors.paginationPage);
+
+		if (!button) return;
+
+		const page = +button.getAttribute(attr.page);
+
+		// Don't continue if the page is already displayed.
+		if (page === this.currPage) return;
+
+		this.goToPage(page);
+	};
+
+	/**
+	 * jumpOnChange
+	 *
+	 * Change to the page entered into the jump to page input.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private jumpOnChange = () => {
+		const page = parseInt(this.paginationJump.value, 10);
+
+		// Invalid values display the current page again.
+		if (isNaN(page) || page === this.currPage) {
+			this.paginationJump.value = this.currPage.toString();
+			return;
+		}
+
+		this.goToPage(page);
+	};
+
+	/**
+	 * showPage
+	 *
+	 * Display the table row elements of the given page and update the pagination controls.
+	 *
+	 * @param {number} page The page to display
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private showPage = (page: number) => {
+		// Remote tables request the page from the data provider.
+		if (this.options.dataProvider) {
+			void this.loadPage(page);
+			return;
+		}
+
+		// The table row elements we paginate, including group rows.
+		const rows = this.getViewRows();
+
+		// Total amount of rows available.
+		const rowsTotal = rows.length;
+
+		// Total number of pages we have, we always have at least one.
+		this.pages = Math.max(Math.ceil(rowsTotal / this.itemsPerPage), 1);
+
+		// Make sure the requested page exists.
+		this.currPage = Math.min(Math.max(page, 1), this.pages);
+
+		// The starting and end range of our pagination.
+		const paginateFrom = this.itemsPerPage * (this.currPage - 1);
+		const paginateTo = Math.min(paginateFrom + this.itemsPerPage, rowsTotal);
+
+		// The table row elements that will be shown for this page.
+		const rowsToShow = rows.slice(paginateFrom, paginateTo);
+
+		// Pages starting inside a group repeat the group rows it belongs to.
+		if (this.grouping.isGrouped() && rowsToShow.length) {
+			rowsToShow.unshift(...this.grouping.getParentGroupRows(rows, paginateFrom));
+		}
+
+		// Display the rows we need.
+		this.displayRows(rowsToShow);
+
+		this.updatePagination(paginateFrom, paginateTo, rowsTotal, rowsToShow);
+	};
+
+	/**
+	 * updatePaginationSelect
+	 *
+	 * Make sure the items per page select element displays the current page limit.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private updatePaginationSelect = () => {
+		// Update the displayed text and value.
+		this.paginationSelect.text = this.itemsPerPage.toString();
+		this.paginationSelect.value = this.itemsPerPage.toString();
+
+		// Set the corresponding element as selected.
+		this.paginationSelect.setSelectedElem(
+			this.paginationSelect.container.querySelector(`[data-value="${this.itemsPerPage}"]`)
+		);
+	};
+
+	/**
+	 * updatePagination
+	 *
+	 * Update the pagination stats and controls for the current page and let the user know it changed.
+	 *
+	 * @param {number} from Index of the first row on the page
+	 * @param {number} to Index after the last row on the page
+	 * @param {number} total Total amount of rows available
+	 * @param {HTMLTableRowElement[]} items The table row elements shown for this page
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private updatePagination = (from: number, to: number, total: number, items: HTMLTableRowElement[]) => {
+		// The range shown starts counting at 1, empty pages show nothing.
+		const stats: MDFTablePaginationStats = {
+			currPage: this.currPage,
+			pages: this.pages,
+			total,
+			from: total ? from + 1 : 0,
+			to,
+		};
+
+		// Set the stats text.
+		this.paginationStats.textContent = this.options.statsFormatter
+			? this.options.statsFormatter(stats)
+			: formatStats(stats);
+
+		// Disable the `first` and `previous` controls if we are on the first page and the `next` and `last` controls if we are on the last.
+		for (const control of [this.paginationFirst, this.paginationPrev]) {
+			if (control) {
+				control.toggleClass(classes.paginationControlDisabled, this.currPage === 1);
+			}
+		}
+
+		for (const control of [this.paginationNext, this.paginationLast]) {
+			if (control) {
+				control.toggleClass(classes.paginationControlDisabled, this.currPage === this.pages);
+			}
+		}
+
+		// If available, list the pages.
+		if (this.paginationPages) {
+			this.renderPageList();
+		}
+
+		// If available, the jump to page input displays the current page.
+		if (this.paginationJump) {
+			this.paginationJump.min = '1';
+			this.paginationJump.max = this.pages.toString();
+			this.paginationJump.value = this.currPage.toString();
+		}
+
+		// Dispatch custom event with pagination details.
+		this.pagination.dispatchEvent(
+			new CustomEvent<MDFTablePaginatedEvent>(events.paginated, {
+				bubbles: true,
+				detail: {
+					...stats,
+					items,
+				},
+			})
+		);
+
+		if (this.urlSync) {
+			this.urlSync.update();
+		}
+	};
+
+	/**
+	 * renderPageList
+	 *
+	 * Create a button for each page around the current one, pages too far away are replaced by an ellipsis.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private renderPageList = () => {
+		// Keep focus on the page list while it gets replaced, e.g. when using the keyboard.
+		const focused = this.paginationPages.contains(document.activeElement);
+
+		this.paginationPages.textContent = '';
+
+		for (const page of getPageItems(this.currPage, this.pages, this.options.pageSiblings)) {
+			// Ellipses are only there for visual purposes.
+			if (page === null) {
+				const ellipsis = document.createElement('span');
+				ellipsis.addClass(classes.paginationEllipsis);
+				ellipsis.setAttribute(attr.hidden, 'true');
+				ellipsis.textContent = '…';
+
+				this.paginationPages.appendChild(ellipsis);
+				continue;
+			}
+
+			const button = document.createElement('button');
+			button.type = 'button';
+			button.addClass(classes.paginationPage);
+			button.setAttribute(attr.page, page.toString());
+			button.setAttribute(attr.label, `Page ${page}`);
+			button.textContent = page.toString();
+
+			// Highlight the current page.
+			if (page === this.currPage) {
+				button.addClass(classes.paginationPageActive);
+				button.setAttribute(attr.current, 'page');
+			}
+
+			this.paginationPages.appendChild(button);
+		}
+
+		if (focused) {
+			const active: HTMLElement = this.paginationPages.querySelector(`.${classes.paginationPageActive}`);
+
+			active.focus();
+		}
+	};
+
+	/**
+	 * loadPage
+	 *
+	 * Request a page from the data provider and display it once it arrives.
+	 * Responses of requests replaced by a newer one are ignored.
+	 *
+	 * @param {number} page The page to load
+	 * @returns {Promise<boolean>} Wether or not the page was displayed
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private loadPage = async (page: number): Promise<boolean> => {
+		// Make sure the requested page exists, once we know how many there are.
+		const target = Math.max(this.pages ? Math.min(page, this.pages) : page, 1);
+
+		// Cancel the previous request, its response is no longer needed.
+		if (this.request) {
+			this.request.abort();
+			this.request = null;
+		}
+
+		// Pages we visited before are displayed right away.
+		if (this.options.cachePages && this.pageCache.has(target)) {
+			this.setLoading(false);
+			this.renderPage(target, this.pageCache.get(target));
+
+			return true;
+		}
+
+		const request = new AbortController();
+		this.request = request;
+
+		this.setLoading(true);
+
+		try {
+			const response = await this.options.dataProvider({
+				page: target,
+				limit: this.itemsPerPage,
+				sort: this.getSortStack(),
+				filter: this.filterModel ? this.filterModel : { filters: [] },
+				columns: this.getColumnKeys(),
+				signal: request.signal,
+			});
+
+			// A newer request replaced this one in the meantime.
+			if (request !== this.request) return false;
+
+			this.request = null;
+			this.setLoading(false);
+
+			// Remember the page so we don't have to request it again.
+			if (this.options.cachePages) {
+				this.pageCache.set(target, response);
+			}
+
+			this.renderPage(target, response);
+
+			return true;
+		} catch (error: unknown) {
+			// Canceled requests were replaced by a newer one.
+			if (request !== this.request) return false;
+
+			this.request = null;
+			this.setLoading(false);
+
+			// Let the user know the page could not be loaded.
+			this.showMessage(this.options.errorMessage);
+
+			// Dispatch custom event with error details.
+			this.body.dispatchEvent(
+				new CustomEvent<MDFTableLoadErrorEvent>(events.loadError, {
+					bubbles: true,
+					detail: {
+						page: target,
+						error,
+					},
+				})
+			);
+
+			return false;
+		}
+	};
+
+	/**
+	 * renderPage
+	 *
+	 * Replace the table rows with the records of a page returned by the data provider.
+	 *
+	 * @param {number} page The loaded page
+	 * @param {MDFTableDataResponse} response The response of the data provider
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private renderPage = (page: number, response: MDFTableDataResponse) => {
+		// The data provider tells us how many rows and pages we have.
+		this.total = response.total;
+		this.pages = Math.max(Math.ceil(this.total / this.itemsPerPage), 1);
+		this.currPage = page;
+
+		this.removeMessage();
+
+		// Render the records of the page.
+		this.replaceRows(response.rows);
+
+		// Group the rows and update the totals footer.
+		this.applyFilter();
+
+		// If enabled, update `aria-rowcount` and `aria-rowindex` to match the new rows.
+		if (this.options.setAriaCount) {
+			this.ariaRowCount();
+		}
+
+		const rows = this.getViewRows();
+
+		this.displayRows(rows);
+
+		// Make sure the header checkbox reflects the selection of the new rows.
+		if (this.checkboxHeader) {
+			this.updateCheckboxHeader();
+		}
+
+		// Update the pagination controls.
+		if (this.pagination) {
+			const from = (page - 1) * this.itemsPerPage;
+
+			this.updatePagination(from, from + this.rows.length, this.total, rows);
+		}
+
+		// Dispatch custom event with details of the loaded page.
+		this.body.dispatchEvent(
+			new CustomEvent<MDFTableLoadedEvent>(events.loaded, {
+				bubbles: true,
+				detail: {
+					page,
+					rows: this.rows,
+					total: this.total,
+				},
+			})
+		);
+	};
+
+	/**
+	 * setLoading
+	 *
+	 * Toggle the loading state of the table.
+	 *
+	 * @param {boolean} loading Wether or not the table is loading
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private setLoading = (loading: boolean) => {
+		this.container.toggleClass(classes.loading, loading);
+
+		// Inform assistive technologies the table content is being updated.
+		this.table.setAttribute(attr.busy, loading.toString());
+	};
+
+	/**
+	 * showMessage
+	 *
+	 * Replace the displayed rows with a single row holding a message, e.g. when loading failed.
+	 *
+	 * @param {string} text The message to display
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private showMessage = (text: string) => {
+		this.removeMessage();
+
+		// Hide the current rows.
+		this.displayRows([]);
+
+		const cell = document.createElement('td');
+		cell.colSpan = this.headers.length;
+		cell.textContent = text;
+		cell.setAttribute(attr.role, 'alert');
+
+		this.messageRow = document.createElement('tr');
+		this.messageRow.addClass(classes.row, classes.rowMessage);
+		this.messageRow.appendChild(cell);
+
+		this.body.appendChild(this.messageRow);
+	};
+
+	/**
+	 * removeMessage
+	 *
+	 * Remove the message row, if any.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private removeMessage = () => {
+		if (!this.messageRow) return;
+
+		this.messageRow.remove();
+		this.messageRow = null;
+	};
+
+	/**
+	 * getColumnKeys
+	 *
+	 * Returns the record key of each column, `null` for columns without one (e.g. the checkbox column).
+	 *
+	 * @returns {string[]}
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private getColumnKeys = (): string[] => {
+		return Array.from(this.headers).map((header, index) => {
+			const column = this.getColumn(index);
+
+			return column ? column.key : null;
+		});
+	};
+
+	/**
+	 * applyFilter
+	 *
+	 * Collect the table row elements that match the current filter model.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private applyFilter = () => {
+		// The rows expanded to display matching rows only stay expanded while they still do.
+		if (this.tree) {
+			this.tree.resetFilterExpanded();
+		}
+
+		// Without filters, all table row elements are displayed. Remote tables are filtered by the data provider.
+		if (this.options.dataProvider || !this.filters || !this.filters.length) {
+			this.filteredRows = null;
+		} else {
+			this.filteredRows = this.rows.filter((row) => this.matchesRow(row));
+
+			// Tree tables keep the ancestors of matching rows.
+			if (this.tree) {
+				this.filteredRows = this.tree.addAncestors(this.filteredRows);
+			}
+		}
+
+		// Groups and totals only take the filtered rows into account.
+		this.grouping.apply();
+		this.updateFooter();
+
+		// The rows of tree tables might have new parents or children.
+		if (this.tree) {
+			this.tree.update();
+		}
+	};
+
+	/**
+	 * dispatchFiltered
+	 *
+	 * Let the user know the filter model has been applied.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private dispatchFiltered = () => {
+		// Dispatch custom event with filter details. Remote tables only hold the rows of the current page.
+		this.body.dispatchEvent(
+			new CustomEvent<MDFTableFilteredEvent>(events.filtered, {
+				bubbles: true,
+				detail: {
+					model: this.filterModel,
+					rows: this.filteredRows ? this.filteredRows : this.rows,
+					total: this.getFilteredTotal(),
+				},
+			})
+		);
+
+		if (this.urlSync) {
+			this.urlSync.update();
+		}
+	};
+
+	/**
+	 * getFilteredTotal
+	 *
+	 * Returns the number of table rows matching the current filter model.
+	 * Remote tables only hold the rows of the current page, the data provider tells us the total.
+	 *
+	 * @returns {number}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private getFilteredTotal = (): number => {
+		if (this.options.dataProvider) return this.total;
+
+		return this.filteredRows ? this.filteredRows.length : this.rows.length;
+	};
+
+	/**
+	 * matchesRow
+	 *
+	 * Check a table row element against the filters of the current filter model.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element to check
+	 * @returns {boolean}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private matchesRow = (row: HTMLTableRowElement): boolean => {
+		const check = (filter: MDFTableFilter): boolean => {
+			// Filters without a column check the text of the whole row.
+			if (filter.column === undefined || filter.column === null) {
+				return matchesFilter(row.textContent, row.textContent, filter);
+			}
+
+			// Otherwise we check the raw and parsed value of the cell.
+			return matchesFilter(this.getCellText(row, filter.column), this.getCellValue(row, filter.column), filter);
+		};
+
+		// Rows need to match either any or all of the filters.
+		return this.filterModel.logic && this.filterModel.logic.toUpperCase() === 'OR'
+			? this.filters.some(check)
+			: this.filters.every(check);
+	};
+
+	/**
+	 * compileFilters
+	 *
+	 * Prepare the filters of a filter model once, instead of converting their values for every table row.
+	 * Filters that can't be prepared, e.g. `regex` filters with an invalid pattern, are left out.
+	 *
+	 * @param {MDFTableFilterModel} model The filter model
+	 * @returns {MDFTableFilter[]}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private compileFilters = (model: MDFTableFilterModel): MDFTableFilter[] => {
+		if (!model || !model.filters) return [];
+
+		const filters: MDFTableFilter[] = [];
+
+		for (const filter of model.filters) {
+			try {
+				filters.push(compileFilter(filter));
+			} catch (error: unknown) {
+				// Dispatch custom event with the rejected filter and the error.
+				this.body.dispatchEvent(
+					new CustomEvent<MDFTableFilterErrorEvent>(events.filterError, {
+						bubbles: true,
+						detail: {
+							filter,
+							error,
+						},
+					})
+				);
+			}
+		}
+
+		return filters;
+	};
+
+	/**
+	 * refresh
+	 *
+	 * Apply the current sorting, filter and page to the table rows after the table data changed.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private refresh = () => {
+		// Keep the table sorted the way it was, remote tables are sorted by the data provider.
+		if (this.sortStack.length && !this.options.dataProvider) {
+			this.sortRows();
+		}
+
+		// The cached page of remote tables no longer matches its rows.
+		if (this.pageCache) {
+			this.pageCache.delete(this.currPage);
+		}
+
+		// Apply the current filter model again.
+		this.applyFilter();
+
+		// If enabled, update `aria-rowcount` and `aria-rowindex` to match the new rows.
+		if (this.options.setAriaCount) {
+			this.ariaRowCount();
+		}
+
+		// Display the rows again, staying on the current page if it still exists.
+		this.updateView();
+
+		// Make sure the header checkbox reflects the current selection.
+		if (this.checkboxHeader) {
+			this.updateCheckboxHeader();
+		}
+	};
+
+	/**
+	 * renderHeaders
+	 *
+	 * Create the table header elements from the supplied columns.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private renderHeaders = () => {
+		// Create the header row.
+		const row = document.createElement('tr');
+		row.addClass(classes.row, classes.rowHeader);
+
+		for (const column of this.options.columns) {
+			// Create a table header element for each column.
+			const header = document.createElement('th');
+			header.addClass(classes.header);
+			header.textContent = column.label ? column.label : column.key;
+
+			// Let the script know if the column can be sorted.
+			if (column.sortable) {
+				header.addClass(classes.headerSortable);
+			}
+
+			// Let the script know what kind of data the column holds.
+			if (column.type) {
+				header.setAttribute(attr.type, column.type);
+			}
+
+			row.appendChild(header);
+		}
+
+		this.head.appendChild(row);
+	};
+
+	/**
+	 * replaceRows
+	 *
+	 * Remove all table row elements and render the given records instead.
+	 *
+	 * @param {MDFTableRecord[]} data The new records
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private replaceRows = (data: MDFTableRecord[]) => {
+		// Stop editing, the edited cell is about to be removed. Edits of the previous rows can't be undone anymore.
+		this.editor.reset();
+
+		// Remove all current table row elements and their detail rows.
+		for (const row of this.rows) {
+			this.removeDetailRow(row);
+			row.remove();
+		}
+
+		// Empty the row array while keeping its reference intact.
+		this.rows.length = 0;
+		this.rowData.clear();
+		this.rowOrder.clear();
+
+		// Store a copy of the new records and render them.
+		this.data = [...data];
+		this.renderRows(this.data);
+
+		// Forget the selected rows that no longer exist. Remote tables keep the selection of other pages.
+		if (!this.options.dataProvider) {
+			const keys = new Set(this.rows.map(this.getRowKey));
+			const removed = Array.from(this.selection).filter((key) => !keys.has(key));
+
+			if (removed.length) {
+				this.setSelected(removed, false);
+			}
+
+			// Rows that no longer exist can't stay expanded either.
+			this.expandedRows.forEach((key) => {
+				if (!keys.has(key)) {
+					this.expandedRows.delete(key);
+				}
+			});
+		}
+	};
+
+	/**
+	 * renderRows
+	 *
+	 * Create table row elements for the given data records and add them to the table body.
+	 *
+	 * @param {MDFTableRecord[]} data The data records to render
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private renderRows = (data: MDFTableRecord[]) => {
+		// We collect the new rows first to add them to the table body all at once.
+		const fragment = document.createDocumentFragment();
+
+		// The order columns had before they were moved.
+		const originalOrder = this.columnLayout.getOrder().map((column, index) => index);
+
+		for (const record of data) {
+			// Create the table row element.
+			const row = document.createElement('tr');
+			row.addClass(classes.row);
+
+			// If the table uses checkboxes, the first cell holds a copy of the header checkbox.
+			if (this.checkboxHeader) {
+				row.appendChild(this.createCheckboxCell());
+			}
+
+			// Create a cell for each column.
+			for (let i = 0; i < this.options.columns.length; i++) {
+				const cell = document.createElement('td');
+				cell.addClass(classes.cell);
+				row.appendChild(cell);
+			}
+
+			// The cells were created in their original order, move them to where their columns are displayed.
+			this.columnLayout.arrangeCells(row, originalOrder);
+
+			// Fill the cells with the record values.
+			this.renderCells(row, record);
+
+			// Rows keep their selection when they are rendered again.
+			this.assignRowKey(row, record);
+			this.applySelection([row]);
+
+			// Tree tables need to know the parent of each row.
+			if (this.tree) {
+				this.tree.assignParentKey(row, record);
+			}
+
+			// Keep track of the new row, its record and its position.
+			this.rowData.set(row, record);
+			this.rowOrder.set(row, this.rowOrderCount++);
+			this.rows.push(row);
+			fragment.appendChild(row);
+		}
+
+		// Let the user know which cells can be edited.
+		this.editor.markEditableCells(this.rows.slice(this.rows.length - data.length));
+
+		// Cards display the header text next to each cell.
+		if (this.options.responsive) {
+			this.labelCells(this.rows.slice(this.rows.length - data.length));
+		}
+
+		// New rows need the offsets of the frozen columns.
+		if (this.frozenCells) {
+			this.freezeCells(this.rows.slice(this.rows.length - data.length));
+		}
+
+		// Virtual rendering decides on its own which rows belong in the DOM.
+		if (!this.options.virtualize) {
+			this.body.appendChild(fragment);
+		}
+	};
+
+	/**
+	 * renderCells
+	 *
+	 * Fill the cells of the given table row element with the values of the data record.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @param {MDFTableRecord} record The data record
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private renderCells = (row: HTMLTableRowElement, record: MDFTableRecord) => {
+		// Skip the checkbox cell if we have one.
+		const offset = this.checkboxHeader ? 1 : 0;
+
+		this.options.columns.forEach((column: MDFTableColumn, index: number) => {
+			// Get the cell and the value that belongs to the column.
+			const cell = this.getCell(row, index + offset);
+			const value: unknown = record[column.key];
+
+			// Clear any previous cell content.
+			cell.textContent = '';
+
+			// Sorting uses the raw value instead of the displayed text.
+			if (value instanceof Date) {
+				cell.setAttribute(attr.sortValue, value.toISOString());
+			} else if (value !== undefined && value !== null && typeof value !== 'object') {
+				cell.setAttribute(attr.sortValue, String(value));
+			} else {
+				cell.removeAttribute(attr.sortValue);
+			}
+
+			if (column.renderer) {
+				// Let the custom renderer create the cell content.
+				column.renderer(cell, value, record);
+			} else if (column.formatter) {
+				// Display the formatted value.
+				cell.textContent = column.formatter(value, record);
+			} else {
+				// Display the value as is.
+				cell.textContent = value === undefined || value === null ? '' : String(value);
+			}
+		});
+
+		// Clearing the cells removed the drag handle and the detail toggle.
+		this.placeRowControls(row);
+	};
+
+	/**
+	 * createCheckboxCell
+	 *
+	 * Create a table cell holding a copy of the header checkbox.
+	 *
+	 * @returns {HTMLTableCellElement}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private createCheckboxCell = (): HTMLTableCellElement => {
+		const cell = document.createElement('td');
+		cell.addClass(classes.cell);
+
+		// Copy the header checkbox.
+		const checkbox = this.checkboxHeader.input.closest(selectors.checkbox).cloneNode(true) as HTMLElement;
+
+		// Row checkboxes can't be indeterminate, so we remove the icon and state.
+		const indeterminate = checkbox.querySelector(selectors.checkboxIndeterminate);
+
+		if (indeterminate) {
+			indeterminate.remove();
+		}
+
+		checkbox.removeClass(classes.checkboxIntermediate);
+
+		// Make sure the new checkbox is unchecked.
+		const input: HTMLInputElement = checkbox.querySelector(selectors.checkboxInput);
+		input.checked = false;
+		input.indeterminate = false;
+
+		cell.appendChild(checkbox);
+
+		return cell;
+	};
+
+	/**
+	 * getRowByIndex
+	 *
+	 * Returns the table row element of the data record at the given index.
+	 *
+	 * @param {number} index Index of the record inside the table data
+	 * @returns {HTMLTableRowElement}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private getRowByIndex = (index: number): HTMLTableRowElement => {
+		// Make sure we have data to look through.
+		if (!this.data || !this.data[index]) return;
+
+		return this.rows.find((row) => this.rowData.get(row) === this.data[index]);
+	};
+
+	/**
+	 * displayRows
+	 *
+	 * Display the given table row elements and hide all others.
+	 * With virtual rendering enabled, only the visible part of the given rows is added to the DOM.
+	 *
+	 * @param {HTMLTableRowElement[]} rows The table row elements to display
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private displayRows = (rows: HTMLTableRowElement[]) => {
+		// Keep track of the rows we are currently displaying.
+		this.viewRows = rows;
+
+		if (this.options.virtualize) {
+			// Start rendering from the current scroll position.
+			this.virtualStart = null;
+			this.renderWindow();
+		} else {
+			// Hide all table row elements, group rows and detail rows first.
+			for (const row of [...this.rows, ...this.grouping.getGroupRows(), ...this.detailRows.values()]) {
+				row.hide();
+			}
+
+			// Moving an element removes its focus, so we remember which element had it.
+			const focused = document.activeElement as HTMLElement;
+
+			// Then display the rows we need. Grouped rows are moved below their group row, child rows below their parent.
+			for (const row of rows) {
+				row.show();
+
+				if (this.grouping.isGrouped() || this.options.tree) {
+					this.body.appendChild(row);
+				}
+
+				// Expanded rows display their detail row right below them, wherever they were moved to.
+				const detailRow = this.getDetailRow(row);
+
+				if (detailRow) {
+					this.body.insertBefore(detailRow, row.nextSibling);
+					detailRow.show();
+				}
+			}
+
+			if (focused && focused !== document.activeElement && this.body.contains(focused)) {
+				focused.focus();
+			}
+
+			// Make sure the interactive grid can still be focused.
+			this.updateActiveCell();
+		}
+	};
+
+	/**
+	 * renderWindow
+	 *
+	 * Add the table row elements that are visible in the table container to the DOM, plus some overscan.
+	 * Spacer rows take the place of all other rows to keep the scroll height intact.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private renderWindow = () => {
+		// Get the scroll position relative to the start of the table body.
+		const scrollTop = Math.max(this.container.scrollTop - this.head.offsetHeight, 0);
+
+		// The range of rows we need, including the overscan on both ends.
+		const start = Math.max(Math.floor(scrollTop / this.rowHeight) - this.options.overscan, 0);
+		const end = Math.min(
+			start + Math.ceil(this.container.clientHeight / this.rowHeight) + this.options.overscan * 2,
+			this.viewRows.length
+		);
+
+		// Don't render again if the range hasn't changed.
+		if (start === this.virtualStart) return;
+
+		this.virtualStart = start;
+
+		// We collect the rows first to add them to the table body all at once.
+		const fragment = document.createDocumentFragment();
+
+		fragment.appendChild(this.createSpacer(start * this.rowHeight));
+
+		for (const row of this.viewRows.slice(start, end)) {
+			// Make sure the row is not hidden by anything else.
+			row.show();
+			fragment.appendChild(row);
+
+			// Expanded rows display their detail row right below them.
+			const detailRow = this.getDetailRow(row);
+
+			if (detailRow) {
+				detailRow.show();
+				fragment.appendChild(detailRow);
+			}
+		}
+
+		fragment.appendChild(this.createSpacer((this.viewRows.length - end) * this.rowHeight));
+
+		// Moving an element removes its focus, so we remember which element had it.
+		const focused = document.activeElement as HTMLElement;
+
+		// Replace the table body content.
+		this.body.textContent = '';
+		this.body.appendChild(fragment);
+
+		if (focused && focused !== document.activeElement && this.body.contains(focused)) {
+			focused.focus();
+		}
+
+		// Make sure the interactive grid can still be focused.
+		this.updateActiveCell();
+
+		// Once a row is rendered we can measure its actual height, it might differ with condensed spacing.
+		const renderedRow = this.viewRows[start];
+
+		if (renderedRow && renderedRow.offsetHeight > 0 && renderedRow.offsetHeight !== this.rowHeight) {
+			this.rowHeight = renderedRow.offsetHeight;
+			this.virtualStart = null;
+			this.renderWindow();
+		}
+	};
+
+	/**
+	 * createSpacer
+	 *
+	 * Create an empty table row element taking the place of rows that are not rendered.
+	 *
+	 * @param {number} height Height of the spacer in pixels
+	 * @returns {HTMLTableRowElement}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private createSpacer = (height: number): HTMLTableRowElement => {
+		const spacer = document.createElement('tr');
+		spacer.addClass(classes.spacer);
+		spacer.setAttribute(attr.hidden, 'true');
+		spacer.style.height = `${height}px`;
+
+		// The spacer cell spans across all columns.
+		const cell = document.createElement('td');
+		cell.colSpan = this.head.rows[0] ? this.head.rows[0].cells.length : 1;
+		spacer.appendChild(cell);
+
+		return spacer;
+	};
+
+	/**
+	 * virtualScroll
+	 *
+	 * Render the visible table row elements while scrolling the table container.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private virtualScroll = () => {
+		// Only render once per frame.
+		cancelAnimationFrame(this.frame);
+		this.frame = requestAnimationFrame(this.renderWindow);
+	};
+
+	/**
+	 * ariaRowCount
+	 *
+	 * Count total amount of table rows available and set necessary `aria-` attr.
+	 * Rows that are not part of the DOM because of virtual rendering are counted as well.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 */
+	private ariaRowCount = () => {
+		// Get the header rows and the table row elements that can be displayed, including group rows.
+		const headerRows = Array.from(this.head.rows);
+		const rows = this.getViewRows();
+
+		// Remote tables only hold the rows of the current page, the data provider tells us how many there are.
+		const remote = this.options.dataProvider && this.currPage;
+		const offset = remote ? (this.currPage - 1) * this.itemsPerPage : 0;
+		const total = remote ? Math.max(this.total, offset + rows.length) : rows.length;
+
+		// Inform assistive technologies about the total number of rows available.
+		this.table.setAttribute(attr.rowCount, (headerRows.length + total).toString());
+
+		// Table row count.
+		let counter = 0;
+
+		// Loop through all table rows and set their index.
+		for (const row of [...headerRows, ...rows]) {
+			// Increase the counter for each row counted, rows of remote tables continue where the previous page stopped.
+			counter = counter === headerRows.length ? counter + offset + 1 : counter + 1;
+
+			// Set the row index for assistive technologies.
+			row.setAttribute(attr.rowIndex, counter.toString());
+		}
+	};
+
+	/**
+	 * truncateHeaders
+	 *
+	 * Will truncate header text and add a tooltip attribute containing the original string.
+	 *
+	 * @param {number} charLimit Character limit for table header text
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.0.0
+	 */
+	private truncateHeaders = (charLimit: number) => {
+		// Make sure the headers character limit is higher than 0.
+		if (charLimit > 0) {
+			// Loop through the list of table header elements.
+			for (const header of this.headers) {
+				// Save the original header text string.
+				const origStr = header.textContent;
+
+				if (header.textContent.length > charLimit) {
+					// Replace header text with shortened version.
+					header.textContent = origStr.truncate(charLimit);
+
+					// Add original header text to tooltip attribute.
+					header.setAttribute(attr.tooltip, origStr);
+				}
+			}
+		}
+	};
+
+	/**
+	 * updatePageLimit
+	 *
+	 * Set or update the page limit value in localStorage.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.0.0
+	 */
+	private updatePageLimit = () => {
+		localStorage.setItem(this.getStorageKey(strings.itemsPerPage), this.itemsPerPage.toString());
+	};
+
+	/**
+	 * updateSpacing
+	 *
+	 * Set or update the table spacing value in localStorage.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.0.0
+	 */
+	private updateSpacing = () => {
+		if (this.container.hasClass(classes.condensed)) {
+			localStorage.setItem(this.getStorageKey(strings.spacing), 'condensed');
+		} else {
+			localStorage.setItem(this.getStorageKey(strings.spacing), 'regular');
+		}
+	};
+
+	/**
+	 * applySpacing
+	 *
+	 * Applies the table spacing value saved in localStorage on page load.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.0.0
+	 */
+	private applySpacing = () => {
+		switch (localStorage.getItem(this.getStorageKey(strings.spacing))) {
+			case 'regular':
+				this.container.removeClass(classes.condensed);
+				break;
+			case 'condensed':
+				this.container.addClass(classes.condensed);
+				break;
+		}
+	};
+
+	/**
+	 * sortBy
+	 *
+	 * Sort the table by one or more columns.
+	 * The first entry is the primary column, every following entry decides the order of rows that are equal so far.
+	 *
+	 * @param {MDFTableSortEntry[]} stack The columns to sort by and their direction
+	 *
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public sortBy = (stack: MDFTableSortEntry[]): void => {
+		// Store a copy of the sort stack and make sure every direction is valid.
+		this.sortStack = stack.map((entry) => ({
+			column: entry.column,
+			direction: entry.direction === 'DESC' ? 'DESC' : 'ASC',
+		}));
+
+		// Each column remembers its last direction, even after it leaves the sort stack.
+		for (const entry of this.sortStack) {
+			this.sortDirections.set(entry.column, entry.direction);
+		}
+
+		// Update the header classes and attr.
+		this.updateSortHeaders();
+
+		if (this.options.dataProvider) {
+			// Remote tables let the data provider sort, the pages we visited are sorted differently.
+			// The first page is requested once the table is set up.
+			if (this.pageCache) {
+				this.pageCache.clear();
+				void this.loadPage(this.currPage ? this.currPage : 1);
+			}
+		} else {
+			// Sort the table row elements.
+			this.sortRows();
+
+			// Sort the rows inside each group as well.
+			this.grouping.apply();
+
+			// If enabled, update `aria-rowindex` to match the new order.
+			if (this.options.setAriaCount) {
+				this.ariaRowCount();
+			}
+
+			// Because the order of the rows changed, we have to display them again.
+			this.updateView();
+		}
+
+		// Dispatch custom event with the primary column, its sorting direction and the full sort stack.
+		this.body.dispatchEvent(
+			new CustomEvent<MDFTableSortedEvent>(events.sorted, {
+				bubbles: true,
+				detail: {
+					column: this.sortStack.length ? this.sortStack[0].column : null,
+					direction: this.getSortingOrder(),
+					stack: this.getSortStack(),
+				},
+			})
+		);
+
+		if (this.urlSync) {
+			this.urlSync.update();
+		}
+	};
+
+	/**
+	 * updateSortHeaders
+	 *
+	 * Update the classes and attr of the table header elements to match the sort stack.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private updateSortHeaders = () => {
+		// Classes we need to remove.
+		const removeClasses = [classes.headerActive, classes.sortASC, classes.sortDESC];
+
+		// Loop through all table header elements.
+		for (const header of this.headers) {
+			// Remove all necessary classes.
+			header.removeClass(...removeClasses);
+
+			// Let assistive technologies know that the column is no longer sorted.
+			header.removeAttribute(attr.sort);
+			header.removeAttribute(attr.sortPriority);
+		}
+
+		this.sortStack.forEach((entry: MDFTableSortEntry, index: number) => {
+			// Get the header that belongs to the column.
+			const header = this.headers[entry.column];
+
+			if (!header) return;
+
+			// Set the header as active and display its sorting direction.
+			header.addClass(classes.headerActive, entry.direction === 'ASC' ? classes.sortASC : classes.sortDESC);
+
+			// Only the primary column lets assistive technologies know about its sorting direction.
+			if (index === 0) {
+				header.setAttribute(attr.sort, entry.direction === 'ASC' ? 'ascending' : 'descending');
+			}
+
+			// Display the priority of each column when sorting by more than one.
+			if (this.sortStack.length > 1) {
+				header.setAttribute(attr.sortPriority, (index + 1).toString());
+			}
+		});
+	};
+
+	/**
+	 * getComparator
+	 *
+	 * Returns a function comparing two table row elements by the supplied column in ascending order.
+	 *
+	 * @param {number} column Table column index
+	 * @returns {Function}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private getComparator = (column: number): ((a: HTMLTableRowElement, b: HTMLTableRowElement) => number) => {
+		// Get the column type that knows how to compare the column values.
+		const type = this.getColumnType(column);
+		const compare = type.compare ? type.compare : compareValues;
+
+		// We only parse each cell once while sorting.
+		const values = new Map<HTMLTableRowElement, any>();
+
+		const getValue = (row: HTMLTableRowElement): any => {
+			if (!values.has(row)) {
+				values.set(row, this.getCellValue(row, column));
+			}
+
+			return values.get(row);
+		};
+
+		return (a, b) => compare(getValue(a), getValue(b));
+	};
+
+	/**
+	 * sortRows
+	 *
+	 * Sort the table row elements by the sort stack and update their order in the table body.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private sortRows = () => {
+		// Prepare a comparison function for every column in the stack, respecting its direction.
+		const comparators = this.sortStack.map((entry) => {
+			const compare = this.getComparator(entry.column);
+			const modifier = entry.direction === 'DESC' ? -1 : 1;
+
+			return (a: HTMLTableRowElement, b: HTMLTableRowElement) => compare(a, b) * modifier;
+		});
+
+		// We sort through the table row elements, moving on to the next column as long as two rows are equal.
+		// Without any columns to sort by, the table row elements return to their original order.
+		this.rows.sort((a, b) => {
+			if (!comparators.length) {
+				return this.rowOrder.get(a) - this.rowOrder.get(b);
+			}
+
+			for (const compare of comparators) {
+				const result = compare(a, b);
+
+				if (result !== 0) {
+					return result;
+				}
+			}
+
+			return 0;
+		});
+
+		// We then append the sorted list of table row elements to the table body, virtual rendering takes care of this itself.
+		if (!this.options.virtualize) {
+			for (const row of this.rows) {
+				this.body.appendChild(row);
+			}
+		}
+
+		// Keep the filtered results in the same order.
+		if (this.filteredRows) {
+			const filtered = new Set(this.filteredRows);
+
+			this.filteredRows = this.rows.filter((row) => filtered.has(row));
+		}
+	};
+
+	/**
+	 * sortOnClick
+	 *
+	 * Sort table column by clicking its header.
+	 * Hold [Shift] while clicking to add the column to the sort stack.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.0.0
+	 */
+	private sortOnClick = (evt: MouseEvent) => {
+		// The clicked element.
+		const _this = evt.target as HTMLElement;
+
+		// Resizing a column shouldn't sort it.
+		if (_this.closest(selectors.resizeHandle)) return;
+
+		// Get the sortable table header that was clicked.
+		const header: HTMLTableCellElement = _this.closest(selectors.sortable);
+
+		// We make sure a sortable table header was clicked.
+		if (header && this.head.contains(header)) {
+			this.sortHeader(header, evt.shiftKey);
+		}
+	};
+
+	/**
+	 * sortHeader
+	 *
+	 * Sort the table by the column of the given header, toggling its direction if it is sorted already.
+	 *
+	 * @param {HTMLTableCellElement} header The sortable table header element
+	 * @param {boolean} addToStack Wether to add the column to the sort stack instead of sorting by it only
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private sortHeader = (header: HTMLTableCellElement, addToStack: boolean) => {
+		// Get the index of the header.
+		const index = [...this.headers].indexOf(header);
+
+		// Check if the column is already part of the sort stack.
+		const entry = this.sortStack.find((item) => item.column === index);
+
+		// Each column keeps its own direction. Columns outside the stack return with their last direction,
+		// columns that were never sorted start with the default order.
+		let direction = this.sortDirections.has(index) ? this.sortDirections.get(index) : this.options.order;
+
+		if (entry) {
+			direction = entry.direction === 'ASC' ? 'DESC' : 'ASC';
+		}
+
+		if (this.options.multiSort && addToStack) {
+			// Update the column inside the stack or add it as the last entry.
+			this.sortBy(
+				entry
+					? this.sortStack.map((item) => (item === entry ? { column: index, direction } : item))
+					: [...this.sortStack, { column: index, direction }]
+			);
+		} else {
+			// Sort by the given column only.
+			this.sortBy([{ column: index, direction }]);
+		}
+	};
+
+	/**
+	 * setupResponsive
+	 *
+	 * Label the cells with the text of their header and watch the width of the table container.
+	 * Below the breakpoint, the table rows are displayed as cards.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private setupResponsive = () => {
+		this.cardLayout = false;
+
+		// Rows rendered from data are labelled when they are created.
+		if (!this.options.columns) {
+			this.labelCells(this.rows);
+		}
+
+		// Without support for `ResizeObserver` we keep the table layout.
+		if (typeof ResizeObserver === 'undefined') return;
+
+		// We watch the container rather than the window, tables don't always span the whole page.
+		this.resizeObserver = new ResizeObserver((entries) => {
+			this.setCardLayout(entries[0].contentRect.width);
+		});
+
+		this.resizeObserver.observe(this.container);
+	};
+
+	/**
+	 * setCardLayout
+	 *
+	 * Switch between the table and card layout based on the width of the table container.
+	 *
+	 * @param {number} width Width of the table container in pixels
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private setCardLayout = (width: number) => {
+		// Hidden containers have no width, we keep the current layout.
+		if (!width) return;
+
+		const cards = width < this.options.breakpoint;
+
+		// Don't continue if the layout stays the same.
+		if (cards === this.cardLayout) return;
+
+		this.cardLayout = cards;
+		this.container.toggleClass(classes.cards, cards);
+
+		// Cards don't freeze any columns.
+		if (this.frozenCells) {
+			this.updateFrozenColumns();
+		}
+
+		// Cards are a lot taller than table rows, virtual rendering has to measure them again.
+		if (this.options.virtualize && this.viewRows) {
+			this.rowHeight = this.options.rowHeight;
+			this.displayRows(this.viewRows);
+		}
+
+		// Dispatch custom event with the new layout.
+		this.container.dispatchEvent(
+			new CustomEvent<MDFTableLayoutSwitchedEvent>(events.layoutSwitched, {
+				bubbles: true,
+				detail: {
+					cards,
+					width,
+				},
+			})
+		);
+	};
+
+	/**
+	 * labelCells
+	 *
+	 * Store the text of their header on the cells of the given table row elements, cards display it as the field label.
+	 *
+	 * @param {HTMLTableRowElement[]} rows The table row elements
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private labelCells = (rows: HTMLTableRowElement[]) => {
+		for (const row of rows) {
+			for (const cell of Array.from(row.cells)) {
+				const header = this.headers[this.getColumnIndex(cell)];
+
+				// The checkbox column has no header text.
+				if (header && !header.hasClass(classes.headerCheckbox)) {
+					cell.setAttribute(attr.cellLabel, this.getHeaderLabel(header));
+				}
+			}
+		}
+	};
+
+	/**
+	 * isCardLayout
+	 *
+	 * Returns wether or not the table rows are currently displayed as cards.
+	 *
+	 * @returns {boolean}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public isCardLayout = (): boolean => {
+		return !!this.cardLayout;
+	};
+
+	/**
+	 * setupFrozenColumns
+	 *
+	 * Keep the table headers and the frozen columns in view while scrolling the table container.
+	 * The offsets of the frozen columns are measured again whenever a table header changes its width.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private setupFrozenColumns = () => {
+		this.frozenCells = new Map();
+		this.container.toggleClass(classes.stickyHeader, !!this.options.stickyHeader);
+
+		this.updateFrozenColumns();
+
+		// Without support for `ResizeObserver` we only measure the columns when their layout changes.
+		if (typeof ResizeObserver === 'undefined') return;
+
+		// Header widths change with their content, the container width and resized columns.
+		this.headerObserver = new ResizeObserver(() => {
+			this.updateFrozenColumns();
+		});
+
+		this.headers.forEach((header) => {
+			this.headerObserver.observe(header);
+		});
+	};
+
+	/**
+	 * setFrozenColumns
+	 *
+	 * Freeze the given number of leading and trailing table columns, only visible columns are counted.
+	 * The checkbox column is frozen along with the leading columns.
+	 *
+	 * @param {number} start Number of leading columns to freeze
+	 * @param {number} [end=0] Number of trailing columns to freeze
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public setFrozenColumns = (start: number, end = 0): void => {
+		this.options.frozenColumns = start;
+		this.options.frozenEndColumns = end;
+
+		if (this.frozenCells) {
+			this.updateFrozenColumns();
+		} else {
+			this.setupFrozenColumns();
+		}
+	};
+
+	/**
+	 * updateFrozenColumns
+	 *
+	 * Measure the offsets of the frozen table columns and apply them to all rows.
+	 * Cards don't scroll sideways, so nothing is frozen while they are displayed.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private updateFrozenColumns = () => {
+		this.frozenCells.clear();
+
+		if (!this.cardLayout) {
+			// The checkbox column isn't counted.
+			const offset = this.checkboxHeader ? 1 : 0;
+			const columns = this.columnLayout.getVisibleColumns();
+
+			const start = columns.slice(0, Math.max(this.options.frozenColumns || 0, 0));
+			const end = columns
+				.slice(Math.max(columns.length - (this.options.frozenEndColumns || 0), 0))
+				.filter((column) => !start.includes(column));
+
+			// The checkbox column is frozen along with the leading columns, so the selection stays in view.
+			if (start.length && offset) {
+				start.unshift(0);
+			}
+
+			// Each frozen column is offset by the width of the frozen columns in front of it, counting from its edge of the table.
+			let position = 0;
+
+			for (const column of start) {
+				this.frozenCells.set(column, { side: 'start', offset: position, edge: column === start[start.length - 1] });
+				position += this.headers[column].offsetWidth;
+			}
+
+			position = 0;
+
+			for (const column of [...end].reverse()) {
+				this.frozenCells.set(column, { side: 'end', offset: position, edge: column === end[0] });
+				position += this.headers[column].offsetWidth;
+			}
+		}
+
+		this.freezeCells([
+			...Array.from(this.head.rows),
+			...this.rows,
+			...this.grouping.getGroupRows(),
+			this.footerRow,
+		]);
+	};
+
+	/**
+	 * freezeCells
+	 *
+	 * Apply the frozen state and offset of each table column to the cells of the given rows.
+	 *
+	 * @param {HTMLTableRowElement[]} rows The table row elements
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private freezeCells = (rows: HTMLTableRowElement[]) => {
+		// The start of the line is on the right for RTL layouts.
+		const start = isRTL() ? 'right' : 'left';
+		const end = isRTL() ? 'left' : 'right';
+
+		for (const row of rows) {
+			// Cells spanning all columns, e.g. inside detail rows and spacers, stay where they are.
+			if (!row || row.cells.length !== this.headers.length) continue;
+
+			this.columnLayout.getOrder().forEach((column, index) => {
+				const cell = row.cells[index];
+				const frozen = this.frozenCells.get(column);
+
+				cell.toggleClass(classes.cellFrozen, !!frozen);
+				cell.toggleClass(classes.cellFrozenEdgeStart, !!frozen && frozen.side === 'start' && frozen.edge);
+				cell.toggleClass(classes.cellFrozenEdgeEnd, !!frozen && frozen.side === 'end' && frozen.edge);
+
+				// Empty values remove the offset.
+				cell.style.setProperty(start, frozen && frozen.side === 'start' ? `${frozen.offset}px` : '');
+				cell.style.setProperty(end, frozen && frozen.side === 'end' ? `${frozen.offset}px` : '');
+			});
+		}
+	};
+
+	/**
+	 * toggleDetails
+	 *
+	 * Expand or collapse the detail row of the table row with the given key.
+	 *
+	 * @param {string} key The row key
+	 * @param {boolean} [expanded] Force the given state instead of toggling it
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public toggleDetails = (key: string, expanded?: boolean): void => {
+		const row = this.rows.find((item) => this.getRowKey(item) === key);
+
+		// Don't continue if the row doesn't exist or the table has no details.
+		if (!row || !this.hasDetails()) return;
+
+		this.setDetailsExpanded(row, expanded === undefined ? !this.expandedRows.has(key) : expanded);
+		this.updateView();
+
+		// Dispatch custom event with the row key, its table row element and its new state.
+		this.body.dispatchEvent(
+			new CustomEvent<MDFTableDetailsToggledEvent>(events.detailsToggled, {
+				bubbles: true,
+				detail: {
+					key,
+					row,
+					expanded: this.expandedRows.has(key),
+				},
+			})
+		);
+	};
+
+	/**
+	 * expandAllDetails
+	 *
+	 * Expand the details of every table row. Remote tables only expand the rows of the current page.
+	 *
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public expandAllDetails = (): void => {
+		if (!this.hasDetails()) return;
+
+		for (const row of this.rows) {
+			this.setDetailsExpanded(row, true);
+		}
+
+		this.updateView();
+	};
+
+	/**
+	 * collapseAllDetails
+	 *
+	 * Collapse the details of every table row.
+	 *
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public collapseAllDetails = (): void => {
+		if (!this.hasDetails()) return;
+
+		for (const row of this.rows) {
+			this.setDetailsExpanded(row, false);
+		}
+
+		this.expandedRows.clear();
+		this.updateView();
+	};
+
+	/**
+	 * getExpandedKeys
+	 *
+	 * Returns the keys of the table rows displaying their details.
+	 *
+	 * @returns {string[]}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public getExpandedKeys = (): string[] => {
+		return Array.from(this.expandedRows);
+	};
+
+	/**
+	 * hasDetails
+	 *
+	 * Returns wether or not the table rows can display details.
+	 *
+	 * @returns {boolean}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private hasDetails = (): boolean => {
+		return !!(this.options.detailTemplate || this.options.detailLoader);
+	};
+
+	/**
+	 * setDetailsExpanded
+	 *
+	 * Set the expanded state of a table row and its toggle.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @param {boolean} expanded Wether or not the details are displayed
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private setDetailsExpanded = (row: HTMLTableRowElement, expanded: boolean) => {
+		if (expanded) {
+			this.expandedRows.add(this.getRowKey(row));
+		} else {
+			this.expandedRows.delete(this.getRowKey(row));
+		}
+
+		// Let assistive technologies know about the new state.
+		const toggle = row.querySelector(selectors.detailToggle);
+
+		if (toggle) {
+			toggle.setAttribute(attr.expanded, expanded.toString());
+		}
+	};
+
+	/**
+	 * placeDetailToggle
+	 *
+	 * Add the detail toggle to the first visible column of a table row, creating it if necessary.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private placeDetailToggle = (row: HTMLTableRowElement) => {
+		// The checkbox column doesn't hold the toggle.
+		const cell = this.getCell(row, this.columnLayout.getVisibleColumns()[0]);
+
+		if (!cell) return;
+
+		let toggle: HTMLButtonElement = row.querySelector(selectors.detailToggle);
+
+		if (!toggle) {
+			// The toggle holds no text, so sorting, filtering and exports still use the cell text.
+			toggle = document.createElement('button');
+			toggle.type = 'button';
+			toggle.addClass(classes.detailToggle);
+			toggle.setAttribute(attr.label, this.options.detailLabel);
+			toggle.setAttribute(attr.expanded, this.expandedRows.has(this.getRowKey(row)).toString());
+
+			// Interactive grids focus the cell instead, [Enter] toggles the details from there.
+			if (this.options.interactive) {
+				toggle.tabIndex = -1;
+			}
+
+			// Detail rows that already exist keep their id.
+			if (this.detailRows.has(row)) {
+				toggle.setAttribute(attr.controls, this.detailRows.get(row).id);
+			}
+		}
+
+		// The drag handle comes first. Moving the toggle would remove its focus.
+		const handle = cell.querySelector(selectors.dragHandle);
+		const reference = handle ? handle.nextSibling : cell.firstChild;
+
+		if (reference !== toggle) {
+			cell.insertBefore(toggle, reference);
+		}
+	};
+
+	/**
+	 * getDetailRow
+	 *
+	 * Returns the detail row of an expanded table row, collapsed rows return `null`.
+	 * Detail rows are created the first time they are displayed.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @returns {HTMLTableRowElement}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private getDetailRow = (row: HTMLTableRowElement): HTMLTableRowElement => {
+		// Group rows don't have a key, so they are never expanded.
+		if (!this.hasDetails() || !this.expandedRows.has(this.getRowKey(row))) return null;
+
+		if (!this.detailRows.has(row)) {
+			this.detailRows.set(row, this.createDetailRow(row));
+		}
+
+		return this.detailRows.get(row);
+	};
+
+	/**
+	 * createDetailRow
+	 *
+	 * Create the detail row of a table row, its single cell spans across all columns.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @returns {HTMLTableRowElement}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private createDetailRow = (row: HTMLTableRowElement): HTMLTableRowElement => {
+		const detailRow = document.createElement('tr');
+		detailRow.id = `mdf-table-detail-${++detailRowCount}`;
+		detailRow.addClass(classes.row, classes.rowDetail);
+
+		const cell = document.createElement('td');
+		cell.addClass(classes.detail);
+		cell.colSpan = this.headers.length;
+		detailRow.appendChild(cell);
+
+		// Let assistive technologies know which row the toggle expands.
+		const toggle = row.querySelector(selectors.detailToggle);
+
+		if (toggle) {
+			toggle.setAttribute(attr.controls, detailRow.id);
+		}
+
+		void this.renderDetails(row, cell);
+
+		return detailRow;
+	};
+
+	/**
+	 * renderDetails
+	 *
+	 * Fill the detail cell using the detail loader or template. Strings are displayed as text.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @param {HTMLTableCellElement} cell The detail cell
+	 * @returns {Promise<void>}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private renderDetails = async (row: HTMLTableRowElement, cell: HTMLTableCellElement): Promise<void> => {
+		const record = this.rowData.has(row) ? this.rowData.get(row) : null;
+		const detailRow = cell.parentElement;
+
+		// Let the user know the details are being loaded.
+		if (this.options.detailLoader) {
+			detailRow.setAttribute(attr.busy, 'true');
+			cell.textContent = this.options.detailLoadingMessage;
+		}
+
+		try {
+			const content = this.options.detailLoader
+				? await this.options.detailLoader(record, row)
+				: this.options.detailTemplate(record, row);
+
+			cell.textContent = '';
+
+			if (content instanceof Node) {
+				cell.appendChild(content);
+			} else if (content !== undefined && content !== null) {
+				cell.textContent = String(content);
+			}
+		} catch (error: unknown) {
+			cell.textContent = this.options.detailErrorMessage;
+			cell.setAttribute(attr.role, 'alert');
+		}
+
+		detailRow.removeAttribute(attr.busy);
+	};
+
+	/**
+	 * removeDetailRow
+	 *
+	 * Remove the detail row of a table row, if any. The row stays expanded.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private removeDetailRow = (row: HTMLTableRowElement) => {
+		if (!this.detailRows.has(row)) return;
+
+		this.detailRows.get(row).remove();
+		this.detailRows.delete(row);
+	};
+
+	/**
+	 * detailsOnClick
+	 *
+	 * Expand or collapse the details of a table row by clicking its toggle.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private detailsOnClick = (evt: MouseEvent) => {
+		const toggle = (evt.target as HTMLElement).closest(selectors.detailToggle);
+
+		if (toggle && this.body.contains(toggle)) {
+			this.toggleDetails(this.getRowKey(toggle.closest(selectors.row)));
+		}
+	};
+
+	/**
+	 * toggleNode
+	 *
+	 * Expand or collapse the child rows of the table row with the given key.
+	 * Rows whose children haven't been loaded yet load them first, using the `childLoader`.
+	 *
+	 * @param {string} key The row key
+	 * @param {boolean} [expanded] Force the given state instead of toggling it
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public toggleNode = (key: string, expanded?: boolean): void => {
+		if (this.tree) {
+			this.tree.toggleNode(key, expanded);
+		}
+	};
+
+	/**
+	 * expandAllNodes
+	 *
+	 * Expand every table row that has children. Rows whose children haven't been loaded yet stay collapsed.
+	 *
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public expandAllNodes = (): void => {
+		if (this.tree) {
+			this.tree.expandAllNodes();
+		}
+	};
+
+	/**
+	 * collapseAllNodes
+	 *
+	 * Collapse every table row that has children.
+	 *
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public collapseAllNodes = (): void => {
+		if (this.tree) {
+			this.tree.collapseAllNodes();
+		}
+	};
+
+	/**
+	 * nodesToggled
+	 *
+	 * Display the table rows again after tree rows were expanded or collapsed.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private nodesToggled = () => {
+		// If enabled, update `aria-rowcount` and `aria-rowindex` to match the displayed rows.
+		if (this.options.setAriaCount) {
+			this.ariaRowCount();
+		}
+
+		this.updateView();
+	};
+
+	/**
+	 * hasDragHandles
+	 *
+	 * Check if the table rows receive a drag handle. Tree tables and remote tables can't be reordered.
+	 *
+	 * @returns {boolean}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private hasDragHandles = (): boolean => {
+		return !!(this.options.reorderRows && !this.options.dataProvider && !this.options.tree);
+	};
+
+	/**
+	 * placeRowControls
+	 *
+	 * Add the drag handle and the detail toggle to the first visible column of a table row, in this order.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private placeRowControls = (row: HTMLTableRowElement) => {
+		if (this.rowReorder) {
+			this.rowReorder.placeDragHandle(row);
+		}
+
+		if (this.hasDetails()) {
+			this.placeDetailToggle(row);
+		}
+	};
+
+	/**
+	 * moveRow
+	 *
+	 * Move the table row element at the given index to a new index, both refer to the current order of the rows.
+	 * The new order becomes the original order of the table, so the table is no longer sorted by its columns.
+	 *
+	 * @param {number} from Current index of the row
+	 * @param {number} to New index of the row
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public moveRow = (from: number, to: number): void => {
+		if (this.rowReorder) {
+			this.rowReorder.moveRow(from, to);
+		}
+	};
+
+	/**
+	 * placeRow
+	 *
+	 * Move a table row element to the given index and display the rows in their new order.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @param {number} to New index of the row
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private placeRow = (row: HTMLTableRowElement, to: number) => {
+		this.rows.splice(this.rows.indexOf(row), 1);
+		this.rows.splice(to, 0, row);
+
+		// The new order becomes the original order, tables that aren't sorted keep displaying the rows this way.
+		this.rows.forEach((item, index) => this.rowOrder.set(item, index));
+		this.rowOrderCount = this.rows.length;
+
+		// Keep the data records in the same order, e.g. for `getData` and exports.
+		if (this.rowData.has(row)) {
+			this.data = this.rows.map((item) => this.rowData.get(item));
+		}
+
+		// The table is no longer sorted by its columns.
+		if (this.sortStack.length) {
+			this.sortStack = [];
+			this.updateSortHeaders();
+			if (this.urlSync) {
+				this.urlSync.update();
+			}
+		}
+
+		// Keep the filtered results in the same order.
+		if (this.filteredRows) {
+			const filtered = new Set(this.filteredRows);
+
+			this.filteredRows = this.rows.filter((item) => filtered.has(item));
+		}
+
+		// Moving an element removes its focus, so we remember which element had it.
+		const focused = document.activeElement as HTMLElement;
+
+		// Append the table row elements in their new order, virtual rendering takes care of this itself.
+		if (!this.options.virtualize) {
+			for (const item of this.rows) {
+				this.body.appendChild(item);
+			}
+		}
+
+		// If enabled, update `aria-rowindex` to match the new order.
+		if (this.options.setAriaCount) {
+			this.ariaRowCount();
+		}
+
+		// Display the rows again, this also moves the detail rows below their rows.
+		this.updateView();
+
+		if (focused && focused !== document.activeElement && this.body.contains(focused)) {
+			focused.focus();
+		}
+	};
+
+	/**
+	 * setupGrid
+	 *
+	 * Prepare the table to be navigated by keyboard following the WAI-ARIA grid pattern.
+	 * Only one cell can be focused using the Tab key, the arrow keys move the focus between cells.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private setupGrid = () => {
+		this.table.setAttribute(attr.role, 'grid');
+
+		// Checkboxes are controlled through their cells, new row checkboxes are copied from the header checkbox.
+		for (const checkbox of Array.from(this.table.querySelectorAll<HTMLInputElement>(selectors.checkboxInput))) {
+			checkbox.tabIndex = -1;
+		}
+
+		// Editable cells are only focusable while they are the active cell.
+		for (const cell of Array.from(this.body.querySelectorAll<HTMLTableCellElement>(selectors.cellEditable))) {
+			cell.removeAttribute('tabindex');
+		}
+
+		// Start on the first table header element.
+		this.activeCell = null;
+		this.updateActiveCell();
+	};
+
+	/**
+	 * getGridRows
+	 *
+	 * Returns the rows that can be navigated by keyboard: the header rows followed by the displayed table rows.
+	 *
+	 * @returns {HTMLTableRowElement[]}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private getGridRows = (): HTMLTableRowElement[] => {
+		return [...Array.from(this.head.rows), ...(this.viewRows ? this.viewRows : this.getViewRows())];
+	};
+
+	/**
+	 * getGridCells
+	 *
+	 * Returns the visible cells of a row, in the order they are displayed.
+	 *
+	 * @param {HTMLTableRowElement} row The row
+	 * @returns {HTMLTableCellElement[]}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private getGridCells = (row: HTMLTableRowElement): HTMLTableCellElement[] => {
+		return row ? Array.from(row.cells).filter((cell) => !cell.hasClass(classes.hidden) && !cell.hidden) : [];
+	};
+
+	/**
+	 * setActiveCell
+	 *
+	 * Make the given cell the only one that can be focused using the Tab key.
+	 *
+	 * @param {HTMLTableCellElement} cell The cell
+	 * @param {boolean} focus Wether or not to focus the cell
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private setActiveCell = (cell: HTMLTableCellElement, focus: boolean) => {
+		if (this.activeCell && this.activeCell !== cell) {
+			this.activeCell.tabIndex = -1;
+		}
+
+		this.activeCell = cell;
+		this.activeCell.tabIndex = 0;
+
+		if (focus) {
+			this.activeCell.focus();
+		}
+	};
+
+	/**
+	 * updateActiveCell
+	 *
+	 * Make sure the active cell is still displayed, otherwise the first table header element becomes the active cell.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private updateActiveCell = () => {
+		if (!this.options.interactive) return;
+
+		const cell = this.activeCell;
+		const displayed =
+			cell &&
+			this.table.contains(cell) &&
+			!cell.hasClass(classes.hidden) &&
+			!cell.parentElement.hasClass(classes.hidden);
 
-		// The starting and end range of our pagination.
-		const paginateFrom = this.itemsPerPage * (this.currPage - 1);
-		const paginateTo = paginateFrom + this.itemsPerPage;
+		if (!displayed) {
+			const cells = this.getGridCells(this.head.rows[0]);
 
-		// The table row elements that will be shown for this page.
-		const rowsToShow = this.filteredRows
-			? this.filteredRows.slice(paginateFrom, paginateTo)
-			: this.rows.slice(paginateFrom, paginateTo);
+			if (cells.length) {
+				this.setActiveCell(cells[0], false);
+			}
+		}
+	};
 
-		// Hide all table row elements first.
-		for (const row of this.rows) {
-			row.hide();
+	/**
+	 * moveFocus
+	 *
+	 * Focus the cell at the given position, positions outside of the grid move the focus to the nearest cell.
+	 *
+	 * @param {number} rowIndex Index of the row inside the grid rows
+	 * @param {number} cellIndex Index of the cell inside the visible cells of the row
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private moveFocus = (rowIndex: number, cellIndex: number) => {
+		const rows = this.getGridRows();
+		const index = Math.min(Math.max(rowIndex, 0), rows.length - 1);
+
+		// Virtual rendering might not have added the row to the DOM yet.
+		if (this.options.virtualize && !this.table.contains(rows[index])) {
+			this.scrollToRow(index - this.head.rows.length);
 		}
 
-		// Then display the rows we need.
-		for (const row of rowsToShow) {
-			row.show();
+		const cells = this.getGridCells(rows[index]);
+
+		if (cells.length) {
+			this.setActiveCell(cells[Math.min(Math.max(cellIndex, 0), cells.length - 1)], true);
+		}
+	};
+
+	/**
+	 * scrollToRow
+	 *
+	 * Scroll the table container until the displayed table row at the given index is visible and render it.
+	 *
+	 * @param {number} index Index of the row inside the displayed table rows
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private scrollToRow = (index: number) => {
+		const headHeight = this.head.offsetHeight;
+		const top = headHeight + index * this.rowHeight;
+
+		if (top < this.container.scrollTop + headHeight) {
+			// The row is above the visible rows.
+			this.container.scrollTop = index * this.rowHeight;
+		} else if (top + this.rowHeight > this.container.scrollTop + this.container.clientHeight) {
+			// The row is below the visible rows.
+			this.container.scrollTop = top + this.rowHeight - this.container.clientHeight;
+		}
+
+		// Render the rows right away instead of waiting for the scroll event.
+		this.virtualStart = null;
+		this.renderWindow();
+	};
+
+	/**
+	 * getPageRowCount
+	 *
+	 * Returns the number of rows [Page Up] and [Page Down] move the focus by, roughly the number of visible rows.
+	 *
+	 * @returns {number}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private getPageRowCount = (): number => {
+		const height = this.options.virtualize ? this.container.clientHeight : window.innerHeight;
+		const rowHeight = this.rowHeight ? this.rowHeight : this.options.rowHeight;
+
+		return Math.max(Math.floor(height / rowHeight) - 1, 1);
+	};
+
+	/**
+	 * activateCell
+	 *
+	 * Trigger the action of a cell by pressing [Enter] or [Space].
+	 * Sortable headers sort their column, group rows toggle their group and [Space] toggles the row selection
+	 * or, inside the cell holding the drag handle, grabs the row.
+	 *
+	 * @param {HTMLTableCellElement} cell The focused cell
+	 * @param {KeyboardEvent} evt The keyboard event
+	 * @returns {boolean} Wether or not the cell had an action
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private activateCell = (cell: HTMLTableCellElement, evt: KeyboardEvent): boolean => {
+		// Sort the column of sortable headers.
+		if (this.options.sortable && cell.hasClass(classes.headerSortable) && this.head.contains(cell)) {
+			this.sortHeader(cell, evt.shiftKey);
+			return true;
+		}
+
+		// Toggle the group of group rows.
+		const toggle: HTMLElement = cell.querySelector(selectors.groupToggle);
+
+		if (toggle) {
+			toggle.click();
+			return true;
+		}
+
+		// Expand or collapse the details of the row, [Enter] edits editable cells instead.
+		const detailToggle: HTMLElement = cell.querySelector(selectors.detailToggle);
+
+		if (evt.key === 'Enter' && detailToggle && !cell.hasClass(classes.cellEditable)) {
+			detailToggle.click();
+			return true;
+		}
+
+		// Expand or collapse the child rows, unless the cell is editable.
+		const treeToggle: HTMLElement = cell.querySelector(selectors.treeToggle);
+
+		if (evt.key === 'Enter' && treeToggle && !cell.hasClass(classes.cellEditable)) {
+			treeToggle.click();
+			return true;
+		}
+
+		// Grab the row to reorder it, [Space] toggles the selection from all other cells.
+		const dragHandle: HTMLElement = cell.querySelector(selectors.dragHandle);
+
+		if (evt.key === ' ' && dragHandle && this.rowReorder.canReorder()) {
+			dragHandle.focus();
+			this.rowReorder.grabRow(cell.parentElement as HTMLTableRowElement);
+			return true;
+		}
+
+		// Toggle the selection of the row, or of all rows for the header row.
+		const checkbox: HTMLInputElement = cell.parentElement.querySelector(selectors.checkboxInput);
+
+		if (evt.key === ' ' && checkbox) {
+			checkbox.click();
+			return true;
+		}
+
+		return false;
+	};
+
+	/**
+	 * gridKeydown
+	 *
+	 * Move the focus between cells using the arrow keys, [Home], [End], [Page Up] and [Page Down].
+	 * Hold [Ctrl] with [Home] or [End] to move to the first or last cell of the grid, [Ctrl + A] selects all rows.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private gridKeydown = (evt: KeyboardEvent) => {
+		const cell = evt.target as HTMLTableCellElement;
+
+		// Only keys pressed on the cells themselves, inputs and our editors handle their own keys.
+		if (this.editor.isEditing() || !cell.matches(selectors.gridCell)) return;
+
+		// Get the position of the cell inside the grid.
+		const rows = this.getGridRows();
+		const rowIndex = rows.indexOf(cell.parentElement as HTMLTableRowElement);
+		const cellIndex = this.getGridCells(rows[rowIndex]).indexOf(cell);
+
+		if (rowIndex < 0 || cellIndex < 0) return;
+
+		const ctrlKey = evt.ctrlKey || evt.metaKey;
+
+		// The arrow pointing towards the end of the line moves forwards, which is to the left for RTL layouts.
+		const next = isRTL() ? 'ArrowLeft' : 'ArrowRight';
+		const prev = isRTL() ? 'ArrowRight' : 'ArrowLeft';
+
+		switch (evt.key) {
+			case next:
+				// Inside tree tables, the arrows expand and collapse rows first.
+				if (!this.tree || !this.tree.treeKeydown(cell, true)) {
+					this.moveFocus(rowIndex, cellIndex + 1);
+				}
+				break;
+			case prev:
+				if (!this.tree || !this.tree.treeKeydown(cell, false)) {
+					this.moveFocus(rowIndex, cellIndex - 1);
+				}
+				break;
+			case 'ArrowDown':
+				this.moveFocus(rowIndex + 1, cellIndex);
+				break;
+			case 'ArrowUp':
+				this.moveFocus(rowIndex - 1, cellIndex);
+				break;
+			case 'Home':
+				this.moveFocus(ctrlKey ? 0 : rowIndex, 0);
+				break;
+			case 'End':
+				this.moveFocus(ctrlKey ? rows.length - 1 : rowIndex, Infinity);
+				break;
+			case 'PageDown':
+				this.moveFocus(rowIndex + this.getPageRowCount(), cellIndex);
+				break;
+			case 'PageUp':
+				this.moveFocus(rowIndex - this.getPageRowCount(), cellIndex);
+				break;
+			case 'Enter':
+			case ' ':
+				// Keys without an action are left to others, e.g. editable cells.
+				if (!this.activateCell(cell, evt)) return;
+				break;
+			case 'a':
+			case 'A':
+				// Select all rows, unless they are selected already.
+				if (!ctrlKey || !this.checkboxHeader) return;
+
+				if (!this.checkboxHeader.checked) {
+					this.checkboxHeader.input.click();
+				}
+
+				break;
+			default:
+				return;
+		}
+
+		evt.preventDefault();
+	};
+
+	/**
+	 * gridClick
+	 *
+	 * Focus the clicked cell, cells only become focusable once they are the active cell.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private gridClick = (evt: MouseEvent) => {
+		const cell: HTMLTableCellElement = (evt.target as HTMLElement).closest(selectors.gridCell);
+
+		// Elements inside the cell, e.g. checkboxes, keep their focus.
+		if (this.isGridCell(cell) && !cell.contains(document.activeElement)) {
+			this.setActiveCell(cell, true);
+		}
+	};
+
+	/**
+	 * gridFocusIn
+	 *
+	 * Make the cell that received focus, or holds the focused element, the active cell.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private gridFocusIn = (evt: FocusEvent) => {
+		const cell: HTMLTableCellElement = (evt.target as HTMLElement).closest(selectors.gridCell);
+
+		if (this.isGridCell(cell)) {
+			this.setActiveCell(cell, false);
+		}
+	};
+
+	/**
+	 * isGridCell
+	 *
+	 * Check if the given cell belongs to the grid rows of this table.
+	 *
+	 * @param {HTMLTableCellElement} cell The cell
+	 * @returns {boolean}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private isGridCell = (cell: HTMLTableCellElement): boolean => {
+		return (
+			!!cell &&
+			cell.closest(selectors.table) === this.table &&
+			!cell.parentElement.hasClass(classes.spacer) &&
+			!cell.parentElement.hasClass(classes.rowFooter)
+		);
+	};
+
+	/**
+	 * checkboxEvents
+	 *
+	 * Add checkbox control logic.
+	 * Select either single rows by themselves or select all/none.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.0.0
+	 */
+	private checkboxEvents = (evt: InputEvent) => {
+		// The clicked checkbox element.
+		const _this = evt.target as HTMLInputElement;
+
+		if (_this === this.checkboxHeader.input) {
+			// We make sure that no matter what, the indeterminate state is removed.
+			this.checkboxHeader.indeterminate = false;
+
+			if (_this.checked) {
+				this.selectAll();
+			} else if (this.options.dataProvider) {
+				this.clearSelection();
+			} else {
+				// Rows that are filtered out keep their selection.
+				this.setSelected(this.getMatchingKeys(), false);
+			}
+		} else if (_this.matches(selectors.checkboxInput)) {
+			// Get the key of the table row element that belongs to the checkbox.
+			const key = this.getRowKey(_this.closest(selectors.row));
+
+			// Holding `Shift` selects or deselects every row between this one and the previously clicked one.
+			const keys = this.rangeSelect ? this.getRangeKeys(this.selectionAnchor, key) : [key];
+
+			this.rangeSelect = false;
+			this.selectionAnchor = key;
+
+			this.setSelected(keys, _this.checked);
+		}
+	};
+
+	/**
+	 * selectionClick
+	 *
+	 * Remember wether or not `Shift` was held while clicking a row checkbox, the input event doesn't tell us.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private selectionClick = (evt: MouseEvent) => {
+		const target = evt.target as HTMLElement;
+
+		this.rangeSelect =
+			evt.shiftKey && target.matches(selectors.checkboxInput) && target !== this.checkboxHeader.input;
+	};
+
+	/**
+	 * getRowKey
+	 *
+	 * Returns the key (`data-row-id`) of a table row element.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @returns {string}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private getRowKey = (row: HTMLTableRowElement): string => {
+		return row.getAttribute(attr.rowId);
+	};
+
+	/**
+	 * assignRowKey
+	 *
+	 * Make sure a table row element has a key. Rows take it from the `rowKey` property of their record,
+	 * rows without one get a generated key.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @param {MDFTableRecord} record The data record of the row, if any
+	 * @returns {string}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private assignRowKey = (row: HTMLTableRowElement, record: MDFTableRecord): string => {
+		// Keys supplied in the markup take precedence.
+		let key = this.getRowKey(row);
+
+		if (!key) {
+			const value: unknown = record && this.options.rowKey ? record[this.options.rowKey] : null;
+
+			key = value !== null && value !== undefined ? String(value) : (this.rowKeyCount++).toString();
+
+			row.setAttribute(attr.rowId, key);
+		}
+
+		return key;
+	};
+
+	/**
+	 * getMatchingKeys
+	 *
+	 * Returns the keys of the table rows matching the current filter model.
+	 * Remote tables only know the rows of the current page.
+	 *
+	 * @returns {string[]}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private getMatchingKeys = (): string[] => {
+		return (this.filteredRows ? this.filteredRows : this.rows).map(this.getRowKey);
+	};
+
+	/**
+	 * getRangeKeys
+	 *
+	 * Returns the keys of the displayed table rows between two rows, both included.
+	 * Without a valid starting row, only the last row is returned.
+	 *
+	 * @param {string} from Key of the first row
+	 * @param {string} to Key of the last row
+	 * @returns {string[]}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private getRangeKeys = (from: string, to: string): string[] => {
+		// The rows in the order they are displayed, group rows have no key.
+		const keys = this.getViewRows()
+			.filter((row) => row.hasAttribute(attr.rowId))
+			.map(this.getRowKey);
+
+		const start = keys.indexOf(from);
+		const end = keys.indexOf(to);
+
+		if (start < 0 || end < 0) return [to];
+
+		return keys.slice(Math.min(start, end), Math.max(start, end) + 1);
+	};
+
+	/**
+	 * setSelected
+	 *
+	 * Select or deselect the table rows with the given keys and let the user know the selection changed.
+	 *
+	 * @param {string[]} keys Keys of the rows
+	 * @param {boolean} selected Wether or not the rows are selected
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private setSelected = (keys: string[], selected: boolean) => {
+		for (const key of keys) {
+			if (selected) {
+				this.selection.add(key);
+				this.excludedKeys.delete(key);
+			} else {
+				this.selection.delete(key);
+
+				// Rows deselected after selecting all matching rows stay deselected on other pages.
+				if (this.selectAllMatching) {
+					this.excludedKeys.add(key);
+				}
+			}
+		}
+
+		// Update the rows, their checkboxes and the header checkbox.
+		this.applySelection(this.rows);
+
+		if (this.checkboxHeader) {
+			this.updateCheckboxHeader();
+		}
+
+		// Dispatch custom event with selection details.
+		this.body.dispatchEvent(
+			new CustomEvent<MDFTableSelectionChangedEvent>(events.selectionChanged, {
+				bubbles: true,
+				detail: {
+					keys: this.getSelectedKeys(),
+					rows: this.getSelectedRows(),
+					all: this.selectAllMatching,
+					count: this.getSelectionCount(),
+				},
+			})
+		);
+	};
+
+	/**
+	 * applySelection
+	 *
+	 * Update the highlight and checkbox of the given table row elements to match the selection.
+	 *
+	 * @param {HTMLTableRowElement[]} rows The table row elements to update
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private applySelection = (rows: HTMLTableRowElement[]) => {
+		for (const row of rows) {
+			const key = this.getRowKey(row);
+
+			// After selecting all matching rows, the rows of remote tables are selected once their page is loaded.
+			if (this.selectAllMatching && !this.excludedKeys.has(key)) {
+				this.selection.add(key);
+			}
+
+			const selected = this.selection.has(key);
+
+			// Check or uncheck the checkbox that belongs to the table row element.
+			const checkbox: HTMLInputElement = row.querySelector(selectors.checkboxInput);
+
+			if (checkbox) {
+				checkbox.checked = selected;
+			}
+
+			// Add or remove the highlight from the table row element.
+			row.toggleClass(classes.rowSelected, selected);
+
+			// Inform assistive technologies about the selected rows.
+			if (this.checkboxHeader) {
+				row.setAttribute(attr.selected, selected.toString());
+			}
+		}
+	};
+
+	/**
+	 * updateCheckboxHeader
+	 *
+	 * Count the selected table row elements and update the header checkbox state accordingly.
+	 * When the table is filtered, only the filtered table row elements are taken into account.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private updateCheckboxHeader = () => {
+		// The header checkbox reflects the table rows matching the filter model.
+		// Remote tables only know the rows of the current page, we compare the selection with the total instead.
+		const total = this.options.dataProvider ? this.total : this.getMatchingKeys().length;
+		const selected = this.options.dataProvider
+			? this.getSelectionCount()
+			: this.getMatchingKeys().filter((key) => this.selection.has(key)).length;
+
+		if (selected <= 0) {
+			// No rows are selected, uncheck the header checkbox.
+			this.checkboxHeader.checked = false;
+			this.checkboxHeader.indeterminate = false;
+		} else if (selected < total) {
+			// Some rows are selected, set the header checkbox as indeterminate.
+			this.checkboxHeader.checked = false;
+			this.checkboxHeader.indeterminate = true;
+		} else {
+			// All rows are selected, check the header checkbox.
+			this.checkboxHeader.checked = true;
+			this.checkboxHeader.indeterminate = false;
 		}
+	};
 
-		// Total amount of rows available.
-		const rowsTotal = this.filteredRows ? this.filteredRows.length : this.rows.length;
-
-		// Set the stats text.
-		this.paginationStats.textContent = `${(paginateFrom + 1).toString()}-${
-			this.currPage === this.pages ? rowsTotal : paginateTo
-		} of ${rowsTotal}`;
-
-		// Disable the `next` control if we landed on the last page.
-		if (this.currPage === this.pages) {
-			this.paginationNext.addClass(classes.paginationControlDisabled);
+	/**
+	 * updateView
+	 *
+	 * Display the table rows after their order or visibility changed, staying on the current page if it still exists.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private updateView = () => {
+		// Remote tables only hold the rows of the current page.
+		if (this.options.paginate && this.pagination && !this.options.dataProvider) {
+			this.showPage(this.currPage);
+		} else {
+			this.displayRows(this.getViewRows());
 		}
+	};
 
-		// Make sure the `previous` control is enabled.
-		this.paginationPrev.removeClass(classes.paginationControlDisabled);
+	/**
+	 * getViewRows
+	 *
+	 * Returns the table row elements that can be displayed, in the order they are displayed.
+	 * When grouped, each group row is followed by the rows of its group unless the group is collapsed.
+	 * Tree tables display the children of expanded rows below their parent.
+	 *
+	 * @returns {HTMLTableRowElement[]}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private getViewRows = (): HTMLTableRowElement[] => {
+		const rows = this.filteredRows ? this.filteredRows : this.rows;
 
-		// If enabled, scroll to the top of the table when selecting a new page.
-		if (this.options.scrollIntoView) {
-			this.container.scrollIntoView({
-				behavior: 'smooth',
-			});
+		// Grouping takes precedence over the tree.
+		if (!this.grouping.isGrouped()) {
+			return this.tree ? this.tree.getTreeRows(rows) : rows;
 		}
 
-		// Dispatch custom event with pagination details.
-		this.pagination.dispatchEvent(
-			new CustomEvent<MDFTablePaginatedEvent>(events.paginated, {
-				bubbles: true,
-				detail: {
-					currPage: this.currPage,
-					items: rowsToShow,
-				},
-			})
-		);
+		return this.grouping.getViewRows();
 	};
 
 	/**
-	 * ariaRowCount
+	 * renderAggregateCells
 	 *
-	 * Count total amount of table rows available and set necessary `aria-` attr.
+	 * Create a cell for each table column holding its aggregate value, the label goes into the first visible column.
 	 *
+	 * @param {HTMLTableRowElement} row The group or footer row
+	 * @param {Object} values The aggregate values, keyed by table column index
+	 * @param {Node} label The label of the row
 	 * @private
 	 * @memberof MDFTable
+	 * @since 1.1.0
 	 */
-	private ariaRowCount = () => {
-		// Get all available table row elements.
-		const rows = this.table.getElementsByTagName('tr');
+	private renderAggregateCells = (row: HTMLTableRowElement, values: { [column: number]: any }, label: Node) => {
+		// The checkbox column doesn't hold a label.
+		const labelColumn = this.columnLayout.getVisibleColumns()[0];
 
-		// Inform assistive technologies about the total number of rows available.
-		this.table.setAttribute(attr.rowCount, rows.length.toString());
+		// Remove the previous cells.
+		row.textContent = '';
 
-		// Table row count.
-		let counter = 0;
+		// Create the cells in the order the columns are displayed.
+		for (const column of this.columnLayout.getOrder()) {
+			const cell = document.createElement('td');
+			cell.addClass(classes.cell);
+			cell.toggleClass(classes.hidden, !this.columnLayout.isColumnVisible(column));
 
-		// Loop through all table rows and set their index.
-		for (const row of rows) {
-			// Increase the counter for each row counted.
-			counter++;
+			if (column === labelColumn) {
+				cell.appendChild(label);
+			}
 
-			// Set the row index for assistive technologies.
-			row.setAttribute(attr.rowIndex, counter.toString());
+			const aggregate = this.aggregates.find((item) => item.column === column);
+
+			if (aggregate && column in values) {
+				cell.addClass(classes.cellAggregate);
+				cell.appendChild(document.createTextNode(this.formatAggregate(aggregate, values[column])));
+
+				// Cards display the header text next to the aggregate value.
+				if (this.options.responsive) {
+					cell.setAttribute(attr.cellLabel, this.getHeaderLabel(this.headers[column]));
+				}
+			}
+
+			row.appendChild(cell);
+		}
+
+		// The new cells need the offsets of the frozen columns.
+		if (this.frozenCells) {
+			this.freezeCells([row]);
 		}
 	};
 
 	/**
-	 * truncateHeaders
-	 *
-	 * Will truncate header text and add a tooltip attribute containing the original string.
+	 * calculateAggregates
 	 *
-	 * @param {number} charLimit Character limit for table header text
+	 * Returns the aggregate values of the given table rows, keyed by table column index.
 	 *
+	 * @param {HTMLTableRowElement[]} rows The table row elements to summarize
+	 * @returns {Object}
 	 * @private
 	 * @memberof MDFTable
-	 * @since 1.0.0
+	 * @since 1.1.0
 	 */
-	private truncateHeaders = (charLimit: number) => {
-		// Make sure the headers character limit is higher than 0.
-		if (charLimit > 0) {
-			// Loop through the list of table header elements.
-			for (const header of this.headers) {
-				// Save the original header text string.
-				const origStr = header.textContent;
+	private calculateAggregates = (rows: HTMLTableRowElement[]): { [column: number]: any } => {
+		const values: { [column: number]: any } = {};
 
-				if (header.textContent.length > charLimit) {
-					// Replace header text with shortened version.
-					header.textContent = origStr.truncate(charLimit);
+		for (const aggregate of this.aggregates) {
+			// Aggregates are either registered by name or custom functions.
+			const calculate = typeof aggregate.type === 'function' ? aggregate.type : getAggregate(aggregate.type);
 
-					// Add original header text to tooltip attribute.
-					header.setAttribute(attr.tooltip, origStr);
-				}
-			}
+			const value: unknown = calculate(
+				rows.map((row): unknown => this.getCellValue(row, aggregate.column)),
+				rows
+			);
+
+			values[aggregate.column] = value;
 		}
+
+		return values;
 	};
 
 	/**
-	 * updatePageLimit
+	 * formatAggregate
 	 *
-	 * Set or update the page limit value in localStorage.
+	 * Convert an aggregate value to the text we display.
 	 *
+	 * @param {MDFTableAggregate} aggregate The aggregate
+	 * @param {any} value The aggregate value
+	 * @returns {string}
 	 * @private
 	 * @memberof MDFTable
-	 * @since 1.0.0
+	 * @since 1.1.0
 	 */
-	private updatePageLimit = () => {
-		localStorage.setItem(strings.itemsPerPage, this.itemsPerPage.toString());
+	private formatAggregate = (aggregate: MDFTableAggregate, value: any): string => {
+		if (aggregate.formatter) return aggregate.formatter(value);
+
+		// Values that couldn't be calculated are left empty.
+		if (value === null || value === undefined || (typeof value === 'number' && isNaN(value))) return '';
+
+		return typeof value === 'number' ? value.toLocaleString() : String(value);
 	};
 
 	/**
-	 * updateSpacing
+	 * updateFooter
 	 *
-	 * Set or update the table spacing value in localStorage.
+	 * Display the totals of the filtered table rows inside the table footer.
 	 *
 	 * @private
 	 * @memberof MDFTable
-	 * @since 1.0.0
+	 * @since 1.1.0
 	 */
-	private updateSpacing = () => {
-		if (this.container.hasClass(classes.condensed)) {
-			localStorage.setItem(strings.spacing, 'condensed');
-		} else {
-			localStorage.setItem(strings.spacing, 'regular');
+	private updateFooter = () => {
+		// Don't continue if the footer is disabled or not set up yet.
+		if (!this.options.footer || !this.aggregates) return;
+
+		// Create the footer row, using the existing table footer if there is one.
+		if (!this.footerRow) {
+			const footer = this.table.tFoot ? this.table.tFoot : this.table.createTFoot();
+			footer.addClass(classes.footer);
+
+			this.footerRow = document.createElement('tr');
+			this.footerRow.addClass(classes.row, classes.rowFooter);
+			footer.appendChild(this.footerRow);
 		}
+
+		this.renderAggregateCells(this.footerRow, this.getTotals(), document.createTextNode(this.options.footerLabel));
 	};
 
 	/**
-	 * applySpacing
+	 * groupsToggled
 	 *
-	 * Applies the table spacing value saved in localStorage on page load.
+	 * Display the table rows again after groups were expanded or collapsed.
 	 *
 	 * @private
 	 * @memberof MDFTable
-	 * @since 1.0.0
+	 * @since 1.1.0
 	 */
-	private applySpacing = () => {
-		switch (localStorage.getItem(strings.spacing)) {
-			case 'regular':
-				this.container.removeClass(classes.condensed);
-				break;
-			case 'condensed':
-				this.container.addClass(classes.condensed);
-				break;
+	private groupsToggled = () => {
+		// If enabled, update `aria-rowcount` and `aria-rowindex` to match the displayed rows.
+		if (this.options.setAriaCount) {
+			this.ariaRowCount();
 		}
+
+		this.updateView();
 	};
 
 	/**
-	 * convertStringToDate
+	 * getStorageKey
 	 *
-	 * Convert string to Date object with the proper format.
+	 * Returns the localStorage key for the given preference, unique to the table if it has a table id.
 	 *
-	 * @param {string} date The string containing the date
-	 * @param {string} format The date's format (DMY, MDY, YMD, YDM)
-	 *
-	 * @example this.convertStringToDate('01/01/2020', 'MDY')
+	 * @param {string} key The preference key
+	 * @returns {string}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
 	 */
-	private convertStringToDate = (date: string, format: string) => {
-		// Split the string at the delimiter.
-		const splitDate = date.split(/[.-/]/);
-
-		// This variable will hold our new Date object.
-		let finalDate;
-
-		switch (format) {
-			case 'DMY':
-				// Create Date object with day/month/year format.
-				finalDate = new Date(+splitDate[2], +splitDate[1], +splitDate[0]);
-				break;
-			case 'MDY':
-				// Create Date object with month/day/year format.
-				finalDate = new Date(+splitDate[2], +splitDate[0], +splitDate[1]);
-				break;
-			case 'YMD':
-				// Create Date object with year/month/day format.
-				finalDate = new Date(+splitDate[0], +splitDate[1], +splitDate[2]);
-				break;
-			case 'YDM':
-				// Create Date object with year/day/month format.
-				finalDate = new Date(+splitDate[0], +splitDate[2], +splitDate[1]);
-				break;
-		}
+	private getStorageKey = (key: string): string => {
+		return this.options.tableId ? `${key}-${this.options.tableId}` : key;
+	};
 
-		// Return the Date object for use in the `sortColumn` script.
-		return finalDate;
+	/**
+	 * getDefaultSort
+	 *
+	 * Returns the sort stack the table starts with.
+	 *
+	 * @returns {MDFTableSortEntry[]}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private getDefaultSort = (): MDFTableSortEntry[] => {
+		return this.options.sortOnLoad ? [{ column: this.options.sortColumn, direction: this.options.order }] : [];
 	};
 
 	/**
-	 * sortColumn
+	 * getCell
 	 *
-	 * Sort the supplied column in either ASC or DESC order.
+	 * Returns the cell of a table row element that belongs to the given table column.
 	 *
+	 * @param {HTMLTableRowElement} row The table row element
 	 * @param {number} column Table column index
-	 *
+	 * @returns {HTMLTableCellElement}
 	 * @private
 	 * @memberof MDFTable
-	 * @since 1.0.0
+	 * @since 1.1.0
 	 */
-	private sortColumn = (column: number) => {
-		// Get the table header element associated with the column.
-		const header = this.headers[column];
-
-		// We check to see if we are expecting dates inside the column.
-		if (header.hasAttribute(attr.type) && header.getAttribute(attr.type) === 'Date') {
-			// We sort through the table row elements by comparing two cells and switch their position if necessary.
-			this.rows.sort((a, b) => {
-				// We get the two cells we will be comparing.
-				const d1 = a.cells[column];
-				const d2 = b.cells[column];
-
-				// We make sure both cells have a specified date format.
-				if (d1.hasAttribute(attr.format) && d2.hasAttribute(attr.format)) {
-					// We convert the table cell data to proper Date objects we can sort.
-					const s1 = this.convertStringToDate(d1.textContent, d1.getAttribute(attr.format));
-					const s2 = this.convertStringToDate(d2.textContent, d2.getAttribute(attr.format));
-
-					if (this.sortASC) {
-						// Sort with ASC order.
-						return s1 < s2 ? -1 : s1 > s2 ? 1 : 0;
-					} else {
-						// Sort with DESC order.
-						return s2 < s1 ? -1 : s2 > s1 ? 1 : 0;
-					}
-				} else {
-					throw new Error(`Make sure table cells have the ${attr.format} attribute`);
-				}
-			});
-		} else {
-			// We use the Collator object to compare the strings for sorting. It will follow a natural order aware of text and numbers.
-			const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
-
-			// We sort through the table row elements by comparing two cells and switch their position if necessary.
-			this.rows.sort((a, b) => {
-				// Get the text contents of the two cells we will compare.
-				const s1 = a.cells[column].textContent;
-				const s2 = b.cells[column].textContent;
-
-				if (this.sortASC) {
-					// Sort with ASC order.
-					return collator.compare(s1, s2);
-				} else {
-					// Sort with DESC order.
-					return collator.compare(s2, s1);
-				}
-			});
-		}
-
-		// We then append the sorted list of table row elements to the table body.
-		for (const row of this.rows) {
-			this.body.appendChild(row);
-		}
-
-		// Dispatch custom event with the current sorting direction.
-		this.body.dispatchEvent(
-			new CustomEvent<MDFTableSortedEvent>(events.sorted, {
-				bubbles: true,
-				detail: {
-					column: column,
-					direction: this.getSortingOrder(),
-				},
-			})
-		);
+	private getCell = (row: HTMLTableRowElement, column: number): HTMLTableCellElement => {
+		return row.cells[this.columnLayout.getOrder().indexOf(column)];
 	};
 
 	/**
-	 * sortOnClick
+	 * getColumnIndex
 	 *
-	 * Sort table column by clicking its header.
+	 * Returns the index of the table column a cell belongs to.
 	 *
+	 * @param {HTMLTableCellElement} cell The cell
+	 * @returns {number}
 	 * @private
 	 * @memberof MDFTable
-	 * @since 1.0.0
+	 * @since 1.1.0
 	 */
-	private sortOnClick = (evt: MouseEvent) => {
-		// The clicked element.
-		const _this = evt.target as HTMLTableCellElement;
+	private getColumnIndex = (cell: HTMLTableCellElement): number => {
+		return this.columnLayout.getOrder()[cell.cellIndex];
+	};
 
-		// We make sure a sortable table header was clicked.
-		if (_this.matches(selectors.sortable)) {
-			// Get the index of the header for the `sortColumn` function.
-			const index = [...this.headers].indexOf(_this);
+	/**
+	 * layoutUpdated
+	 *
+	 * Update whatever depends on the position of the table columns once their layout changed.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private layoutUpdated = () => {
+		// The drag handle and the detail toggle stay inside the first visible column.
+		for (const row of this.rows) {
+			this.placeRowControls(row);
+		}
 
-			// Set sorting order to ASC or DESC.
-			this.sortASC = this.sortASC ? false : true;
+		// So does the tree toggle.
+		if (this.tree) {
+			this.tree.update();
+		}
 
-			// Classes we need to remove.
-			const removeClasses = [classes.headerActive, classes.sortASC, classes.sortDESC];
+		// Moved, hidden and resized columns change which columns are frozen and their offsets.
+		if (this.frozenCells) {
+			this.updateFrozenColumns();
+		}
 
-			// Loop through all table header elements.
-			for (const header of this.headers) {
-				// Remove all necessary classes.
-				header.removeClass(...removeClasses);
+		// Hidden cells can't be focused.
+		this.updateActiveCell();
 
-				// Let assistive technologies know that the column is no longer sorted.
-				header.removeAttribute(attr.sort);
-			}
+		// Group rows and the footer display their labels in the first visible column, so we render them again.
+		if (this.grouping.isGrouped()) {
+			this.grouping.apply();
+		}
 
-			// Set the clicked header as `active`
-			_this.addClass(classes.headerActive);
+		if (this.footerRow) {
+			this.updateFooter();
+		}
+	};
 
-			if (this.sortASC) {
-				// Column is sorted in ASC order.
-				_this.addClass(classes.sortASC);
-				_this.setAttribute(attr.sort, 'ascending');
-			} else {
-				// Column is sorted in DESC order.
-				_this.addClass(classes.sortDESC);
-				_this.setAttribute(attr.sort, 'descending');
-			}
+	/**
+	 * getColumn
+	 *
+	 * Returns the column definition of the given table column, if the table was rendered from columns.
+	 *
+	 * @param {number} column Table column index
+	 * @returns {MDFTableColumn}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private getColumn = (column: number): MDFTableColumn => {
+		if (!this.options.columns) return null;
 
-			// Sort the column.
-			this.sortColumn(index);
+		// Skip the checkbox column if we have one.
+		const definition = this.options.columns[column - (this.checkboxHeader ? 1 : 0)];
 
-			// We make sure that paginated data is displayed correctly.
-			if (this.options.paginate) {
-				// Get all row elements.
-				const rows = this.filteredRows ? this.filteredRows : this.rows;
+		return definition ? definition : null;
+	};
 
-				// Hide them.
-				for (const row of rows) {
-					row.hide();
-				}
+	/**
+	 * getHeaderLabel
+	 *
+	 * Returns the full text of a table header element.
+	 *
+	 * @param {HTMLTableCellElement} header The table header element
+	 * @returns {string}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private getHeaderLabel = (header: HTMLTableCellElement): string => {
+		// Truncated headers keep their original text in the tooltip attribute.
+		return header.hasAttribute(attr.tooltip) ? header.getAttribute(attr.tooltip) : header.textContent.trim();
+	};
 
-				// Because the array basically gets reversed when sorting in DESC order , we have to get the new updated range of row elements.
-				const paginateFrom = this.itemsPerPage * (this.currPage - 1);
-				const paginateTo = paginateFrom + this.itemsPerPage;
-				const rowsToShow = rows.slice(paginateFrom, paginateTo);
+	/**
+	 * getCellText
+	 *
+	 * Returns the raw value of a table row element's cell, before it gets parsed by the column type.
+	 *
+	 * @param {HTMLTableRowElement} row The table row element
+	 * @param {number} column Table column index
+	 * @returns {string}
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	public getCellText = (row: HTMLTableRowElement, column: number): string => {
+		const type = this.getColumnType(column);
+		const cell = this.getCell(row, column);
 
-				// Show those rows.
-				for (const row of rowsToShow) {
-					row.show();
-				}
-			}
-		}
+		return type.extract && cell ? type.extract(cell) : getSortValue(cell);
 	};
 
 	/**
-	 * checkboxEvents
+	 * getExportColumns
 	 *
-	 * Add checkbox control logic.
-	 * Select either single rows by themselves or select all/none.
+	 * Returns the index, key and label of every visible table column that holds data.
 	 *
+	 * @returns {Array}
 	 * @private
 	 * @memberof MDFTable
-	 * @since 1.0.0
+	 * @since 1.1.0
 	 */
-	private checkboxEvents = (evt: InputEvent) => {
-		// The clicked checkbox element.
-		const _this = evt.target as HTMLInputElement;
+	private getExportColumns = (): { index: number; key: string; label: string }[] => {
+		const columns: { index: number; key: string; label: string }[] = [];
 
-		if (_this === this.checkboxHeader.input) {
-			// We make sure that no matter what, the indeterminate state is removed.
-			this.checkboxHeader.indeterminate = false;
+		// Export the columns in the order they are displayed.
+		for (const index of this.columnLayout.getOrder()) {
+			const header = this.headers[index];
 
-			if (_this.checked) {
-				// Loop through all checkboxes and set them as checked.
-				for (const checkbox of this.checkboxes) {
-					// We make sure to skip the checkbox in the table header.
-					if (checkbox !== this.checkboxHeader.input) {
-						checkbox.checked = true;
-					}
-				}
+			// Skip the checkbox column and hidden columns.
+			if (header.hasClass(classes.headerCheckbox) || !this.columnLayout.isColumnVisible(index) || header.hidden) {
+				continue;
+			}
 
-				// Loop through all table row elements.
-				for (const row of this.rows) {
-					// Highlight the table row element that belongs to the checkbox.
-					row.addClass(classes.rowSelected);
-				}
+			// Columns we rendered from have a key, otherwise we use the label.
+			const label = this.getHeaderLabel(header);
+			const column = this.getColumn(index);
 
-				// Set the table row counter to total amount of table row elements.
-				this.selectedRows = this.rows.length;
-			} else {
-				// Loop through all checkboxes and uncheck them.
-				for (const checkbox of this.checkboxes) {
-					// We make sure to skip the checkbox in the table header.
-					if (checkbox !== this.checkboxHeader.input) {
-						checkbox.checked = false;
-					}
-				}
+			columns.push({ index, key: column ? column.key : label, label });
+		}
 
-				// Loop through all table row elements.
-				for (const row of this.rows) {
-					// Remove the highlight from the table row element.
-					row.removeClass(classes.rowSelected);
-				}
+		return columns;
+	};
 
-				// Reset the table row counter.
-				this.selectedRows = 0;
-			}
-		} else if (_this.matches(selectors.checkboxInput)) {
-			// Get the table row element that belongs to the checkbox.
-			const row = _this.closest(selectors.row);
+	/**
+	 * getExportRows
+	 *
+	 * Returns the table row elements to export.
+	 *
+	 * @param {string} rows Which rows to export (all, filtered, selected)
+	 * @returns {HTMLTableRowElement[]}
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private getExportRows = (rows: string): HTMLTableRowElement[] => {
+		switch (rows) {
+			case 'filtered':
+				return this.filteredRows ? this.filteredRows : this.rows;
+			case 'selected':
+				return this.getSelectedRows();
+			default:
+				return this.rows;
+		}
+	};
 
-			if (_this.checked) {
-				// If a checkbox was checked, add to the counter.
-				this.selectedRows++;
+	/**
+	 * exportOnClick
+	 *
+	 * Download or copy the table data when clicking an export control.
+	 *
+	 * @private
+	 * @memberof MDFTable
+	 * @since 1.1.0
+	 */
+	private exportOnClick = (evt: MouseEvent) => {
+		// Get the clicked export control.
+		const control = (evt.target as HTMLElement).closest(selectors.exportControl);
 
-				// Highlight the table row element that belongs to the checkbox.
-				row.addClass(classes.rowSelected);
-			} else {
-				// Otherwise subtract from it.
-				this.selectedRows--;
+		if (!control) return;
 
-				// And remove the highlight from the table row element.
-				row.removeClass(classes.rowSelected);
-			}
+		const options: MDFTableExportOptions = {
+			format: control.getAttribute(attr.exportFormat),
+			rows: control.getAttribute(attr.exportRows),
+		};
 
-			// Set the proper styling and attr for the checkbox header.
-			if (this.selectedRows <= 0) {
-				// No rows are selected, uncheck the header checkbox.
-				this.checkboxHeader.checked = false;
-				this.checkboxHeader.indeterminate = false;
-			} else if (this.selectedRows > 0 && this.selectedRows < this.rows.length) {
-				// Some rows are selected, set the header checkbox as indeterminate.
-				this.checkboxHeader.checked = false;
-				this.checkboxHeader.indeterminate = true;
-			} else if (this.selectedRows === this.rows.length) {
-				// All rows are selected, check the header checkbox.
-				this.checkboxHeader.checked = true;
-				this.checkboxHeader.indeterminate = false;
-			}
+		if (control.getAttribute(attr.exportAction) === 'copy') {
+			this.copyToClipboard(options).catch((error: unknown) => {
+				// Dispatch custom event with the export options and the error, so the page can let the user know.
+				this.container.dispatchEvent(
+					new CustomEvent<MDFTableExportErrorEvent>(events.exportError, {
+						bubbles: true,
+						detail: {
+							options,
+							error,
+						},
+					})
+				);
+			});
+		} else {
+			this.download(options);
 		}
 	};
 
@@ -988,9 +4956,56 @@ export class MDFTable {
 			this.container.addEventListener('click', this.sortOnClick);
 		}
 
+		// If enabled, render the visible table row elements while scrolling.
+		if (this.options.virtualize) {
+			this.container.addEventListener('scroll', this.virtualScroll);
+		}
+
+		// If any column is editable, allow to edit its cells and undo or redo the edits.
+		this.editor.addEvents();
+
+		// If enabled, allow to move and resize table columns using their headers and to show or hide them using the column chooser.
+		this.columnLayout.addEvents();
+
+		// If enabled, expand and collapse the details of table rows using their toggles.
+		if (this.hasDetails()) {
+			this.body.addEventListener('click', this.detailsOnClick);
+		}
+
+		// If enabled, reorder table rows by dragging their handles or by keyboard.
+		if (this.rowReorder) {
+			this.rowReorder.addEvents();
+		}
+
+		// If enabled, expand and collapse tree rows using their toggles.
+		if (this.tree) {
+			this.tree.addEvents();
+		}
+
+		// Groups can be created at any time, so we always listen to their toggles.
+		this.grouping.addEvents();
+
+		// If enabled, navigate the table cells by keyboard.
+		if (this.options.interactive) {
+			this.table.addEventListener('keydown', this.gridKeydown);
+			this.table.addEventListener('focusin', this.gridFocusIn);
+			this.table.addEventListener('click', this.gridClick);
+		}
+
+		// If available, export the table data using the export controls.
+		if (this.container.querySelector(selectors.exportControl)) {
+			this.container.addEventListener('click', this.exportOnClick);
+		}
+
 		// If available, enable the use of checkboxes to select table row elements.
-		if (this.checkboxes) {
+		if (this.checkboxHeader) {
 			this.table.addEventListener('input', this.checkboxEvents);
+			this.table.addEventListener('click', this.selectionClick);
+		}
+
+		// If enabled, restore the table state when navigating the browser history.
+		if (this.urlSync) {
+			this.urlSync.addEvents();
 		}
 	};
 }
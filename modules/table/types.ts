@@ -1,11 +1,219 @@
+type MDFTableRecord = Record<string, any>;
+
+interface MDFTableColumnType {
+	extract?: (cell: HTMLTableCellElement) => string;
+	parse?: (value: string) => any;
+	compare?: (a: any, b: any) => number;
+}
+
+interface MDFTableEditorOption {
+	value: string;
+	text: string;
+}
+
+interface MDFTableColumn {
+	key: string;
+	label?: string;
+	type?: string;
+	sortable?: boolean;
+	comparator?: (a: any, b: any) => number;
+	extractor?: (cell: HTMLTableCellElement) => string;
+	formatter?: (value: any, record: MDFTableRecord) => string;
+	renderer?: (cell: HTMLTableCellElement, value: any, record: MDFTableRecord) => void;
+	hidden?: boolean;
+	editable?: boolean;
+	editor?: string;
+	editorOptions?: MDFTableEditorOption[];
+	validator?: (value: string, record: MDFTableRecord) => string;
+}
+
+interface MDFTableSortEntry {
+	column: number;
+	direction: string;
+}
+
 interface MDFTableSortedEvent {
 	column: number;
 	direction: string;
+	stack: MDFTableSortEntry[];
 }
 
 interface MDFTablePaginatedEvent {
 	currPage: number;
 	items: HTMLTableRowElement[];
+	pages: number;
+	total: number;
+	from: number;
+	to: number;
+}
+
+interface MDFTableLayoutSwitchedEvent {
+	cards: boolean;
+	width: number;
+}
+
+interface MDFTableUrlState {
+	sort: MDFTableSortEntry[];
+	filter: MDFTableFilterModel;
+	page: number;
+	limit: number;
+}
+
+interface MDFTablePaginationStats {
+	currPage: number;
+	pages: number;
+	total: number;
+	from: number;
+	to: number;
+}
+
+interface MDFTableFilter {
+	column?: number;
+	operator?: string;
+	value: any;
+	caseSensitive?: boolean;
+}
+
+interface MDFTableFilterModel {
+	filters: MDFTableFilter[];
+	logic?: string;
+}
+
+type MDFTableFilterOperator = (text: string, value: any, filter: MDFTableFilter) => boolean;
+
+interface MDFTableFilteredEvent {
+	model: MDFTableFilterModel;
+	rows: HTMLTableRowElement[];
+	total: number;
+}
+
+interface MDFTableFilterErrorEvent {
+	filter: MDFTableFilter;
+	error: unknown;
+}
+
+interface MDFTableEdit {
+	row: HTMLTableRowElement;
+	column: number;
+	oldValue: any;
+	newValue: any;
+}
+
+interface MDFTableEditedEvent extends MDFTableEdit {
+	record: MDFTableRecord;
+}
+
+interface MDFTableExportOptions {
+	format?: string;
+	rows?: string;
+	headers?: boolean;
+	filename?: string;
+}
+
+interface MDFTableExportErrorEvent {
+	options: MDFTableExportOptions;
+	error: unknown;
+}
+
+interface MDFTableLayout {
+	order: number[];
+	hidden: number[];
+	widths: { [column: number]: number };
+}
+
+interface MDFTableDataRequest {
+	page: number;
+	limit: number;
+	sort: MDFTableSortEntry[];
+	filter: MDFTableFilterModel;
+	columns: string[];
+	signal: AbortSignal;
+}
+
+interface MDFTableDataResponse {
+	rows: MDFTableRecord[];
+	total: number;
+}
+
+type MDFTableDataProvider = (request: MDFTableDataRequest) => Promise<MDFTableDataResponse>;
+
+interface MDFTableLoadedEvent {
+	page: number;
+	rows: HTMLTableRowElement[];
+	total: number;
+}
+
+interface MDFTableLoadErrorEvent {
+	page: number;
+	error: unknown;
+	row?: HTMLTableRowElement;
+}
+
+interface MDFTableSelectionChangedEvent {
+	keys: string[];
+	rows: HTMLTableRowElement[];
+	all: boolean;
+	count: number;
+}
+
+type MDFTableAggregateFunction = (values: any[], rows: HTMLTableRowElement[]) => any;
+
+interface MDFTableAggregate {
+	column: number;
+	type?: string | MDFTableAggregateFunction;
+	formatter?: (value: any) => string;
+}
+
+interface MDFTableGroup {
+	key: string;
+	column: number;
+	text: string;
+	level: number;
+	rows: HTMLTableRowElement[];
+	groups: MDFTableGroup[];
+	aggregates: { [column: number]: any };
+	expanded: boolean;
+}
+
+interface MDFTableGroupedEvent {
+	columns: number[];
+	groups: MDFTableGroup[];
+}
+
+interface MDFTableGroupToggledEvent {
+	key: string;
+	expanded: boolean;
+}
+
+type MDFTableDetailTemplate = (record: MDFTableRecord, row: HTMLTableRowElement) => string | Node;
+
+type MDFTableDetailLoader = (record: MDFTableRecord, row: HTMLTableRowElement) => Promise<string | Node>;
+
+interface MDFTableDetailsToggledEvent {
+	key: string;
+	row: HTMLTableRowElement;
+	expanded: boolean;
+}
+
+type MDFTableChildLoader = (record: MDFTableRecord, row: HTMLTableRowElement) => Promise<MDFTableRecord[]>;
+
+interface MDFTableTreeToggledEvent {
+	key: string;
+	row: HTMLTableRowElement;
+	expanded: boolean;
+}
+
+interface MDFTableReorderStatus {
+	action: 'grabbed' | 'moved' | 'dropped' | 'canceled';
+	position: number;
+	total: number;
+}
+
+interface MDFTableReorderedEvent {
+	from: number;
+	to: number;
+	key: string;
+	row: HTMLTableRowElement;
 }
 
 interface MDFTableOptions {
@@ -13,6 +221,7 @@ interface MDFTableOptions {
 	sortOnLoad?: boolean;
 	sortColumn?: number;
 	order?: string;
+	multiSort?: boolean;
 	setAriaCount?: boolean;
 	truncateHeaders?: boolean;
 	headersCharLimit?: number;
@@ -20,6 +229,116 @@ interface MDFTableOptions {
 	itemsPerPage?: number;
 	scrollIntoView?: boolean;
 	savePreferences?: boolean;
+	tableId?: string;
+	columns?: MDFTableColumn[];
+	data?: MDFTableRecord[];
+	virtualize?: boolean;
+	rowHeight?: number;
+	overscan?: number;
+	exportFilename?: string;
+	reorderable?: boolean;
+	resizable?: boolean;
+	minColumnWidth?: number;
+	groupBy?: number[];
+	aggregates?: MDFTableAggregate[];
+	footer?: boolean;
+	footerLabel?: string;
+	interactive?: boolean;
+	dataProvider?: MDFTableDataProvider;
+	cachePages?: boolean;
+	errorMessage?: string;
+	rowKey?: string;
+	pageSiblings?: number;
+	statsFormatter?: (stats: MDFTablePaginationStats) => string;
+	syncUrl?: boolean;
+	urlMode?: string;
+	urlNamespace?: string;
+	responsive?: boolean;
+	breakpoint?: number;
+	detailTemplate?: MDFTableDetailTemplate;
+	detailLoader?: MDFTableDetailLoader;
+	detailLabel?: string;
+	detailLoadingMessage?: string;
+	detailErrorMessage?: string;
+	tree?: boolean;
+	parentKey?: string;
+	hasChildrenKey?: string;
+	childLoader?: MDFTableChildLoader;
+	treeLabel?: string;
+	reorderRows?: boolean;
+	reorderLabel?: string;
+	reorderFormatter?: (status: MDFTableReorderStatus) => string;
+	stickyHeader?: boolean;
+	frozenColumns?: number;
+	frozenEndColumns?: number;
+}
+
+interface MDFTablePivotOptions {
+	rows?: number[];
+	columns?: number[];
+	value?: number;
+	aggregate?: string | MDFTableAggregateFunction;
+	valueLabel?: string;
+	formatter?: (value: any) => string;
+	totals?: boolean;
+	totalLabel?: string;
+	emptyLabel?: string;
+	separator?: string;
+	tableOptions?: MDFTableOptions;
+}
+
+interface MDFTablePivotGroup {
+	keys: string[];
+	labels: string[];
+	rows: HTMLTableRowElement[];
+}
+
+interface MDFTablePivotedEvent {
+	columns: MDFTableColumn[];
+	records: MDFTableRecord[];
 }
 
-export { MDFTablePaginatedEvent, MDFTableSortedEvent, MDFTableOptions };
+export {
+	MDFTableAggregate,
+	MDFTableAggregateFunction,
+	MDFTableChildLoader,
+	MDFTableColumn,
+	MDFTableColumnType,
+	MDFTableDataProvider,
+	MDFTableDataRequest,
+	MDFTableDataResponse,
+	MDFTableDetailLoader,
+	MDFTableDetailsToggledEvent,
+	MDFTableDetailTemplate,
+	MDFTableEdit,
+	MDFTableEditedEvent,
+	MDFTableEditorOption,
+	MDFTableExportErrorEvent,
+	MDFTableExportOptions,
+	MDFTableFilter,
+	MDFTableFilterModel,
+	MDFTableFilterOperator,
+	MDFTableFilteredEvent,
+	MDFTableFilterErrorEvent,
+	MDFTableGroup,
+	MDFTableGroupedEvent,
+	MDFTableGroupToggledEvent,
+	MDFTableLayout,
+	MDFTableLayoutSwitchedEvent,
+	MDFTableLoadedEvent,
+	MDFTableLoadErrorEvent,
+	MDFTableRecord,
+	MDFTableReorderedEvent,
+	MDFTableReorderStatus,
+	MDFTablePaginatedEvent,
+	MDFTablePaginationStats,
+	MDFTablePivotedEvent,
+	MDFTablePivotGroup,
+	MDFTablePivotOptions,
+	MDFTableSelectionChangedEvent,
+	MDFTableSortEntry,
+	MDFTableSortedEvent,
+	MDFTableTreeToggledEvent,
+	MDFTableUrlState,
+	MDFTableOptions,
+};